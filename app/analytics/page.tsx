@@ -3,7 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useUser } from "@clerk/nextjs";
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
+import type { UsageStats } from '@/lib/analytics';
+import { findModelConfig } from '@/lib/ai-models';
 
 export default function AnalyticsPage() {
   const { user, isLoaded } = useUser();
@@ -15,6 +16,8 @@ export default function AnalyticsPage() {
     favoriteModel: 'GPT-4',
     costEstimate: 0,
     avgResponseTime: '1.2s',
+    cacheHits: 0,
+    cacheHitRate: 0,
     modelsUsed: [] as string[]
   });
 
@@ -29,28 +32,23 @@ export default function AnalyticsPage() {
   const loadAnalytics = async () => {
     if (!user) return;
     
-    const { data: conversations } = await supabase
-      .from('conversations')
-      .select('*')
-      .eq('user_id', user.id);
-    
-    const { data: messages } = await supabase
-      .from('messages')
-      .select('*');
-    
-    const tokensUsed = messages?.reduce((acc, msg) => acc + (msg.content.length / 4), 0) || 0;
-    const costEstimate = (tokensUsed / 1000) * 0.002; // Rough estimate
-    
-    const modelsUsed = [...new Set(conversations?.map(c => c.model) || [])];
+    const response = await fetch('/api/analytics');
+    if (!response.ok) {
+      console.error('Error loading analytics:', (await response.json()).error);
+      return;
+    }
+    const { stats: usage }: { stats: UsageStats } = await response.json();
     
     setStats({
-      totalChats: conversations?.length || 0,
-      totalMessages: messages?.length || 0,
-      tokensUsed: Math.round(tokensUsed),
-      favoriteModel: modelsUsed[0] || 'GPT-4',
-      costEstimate: costEstimate,
-      avgResponseTime: '1.2s',
-      modelsUsed: modelsUsed
+      totalChats: usage.totalChats,
+      totalMessages: usage.totalMessages,
+      tokensUsed: usage.tokensUsed,
+      favoriteModel: usage.modelsUsed[0] ? (findModelConfig(usage.modelsUsed[0])?.name || usage.modelsUsed[0]) : 'GPT-4',
+      costEstimate: usage.costEstimate,
+      avgResponseTime: usage.avgLatencyMs !== null ? `${(usage.avgLatencyMs / 1000).toFixed(1)}s` : '—',
+      cacheHits: usage.cacheHits,
+      cacheHitRate: usage.cacheHitRate,
+      modelsUsed: usage.modelsUsed
     });
   };
 
@@ -74,7 +72,7 @@ export default function AnalyticsPage() {
       
       {/* Stats Grid */}
       <div className="max-w-6xl mx-auto p-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
           <div className="bg-[#0a0a0a] border border-[#333333] p-6">
             <h3 className="text-gray-500 text-xs uppercase tracking-wider">Total Conversations</h3>
             <p className="text-4xl font-bold mt-2">{stats.totalChats}</p>
@@ -98,6 +96,12 @@ export default function AnalyticsPage() {
             <p className="text-4xl font-bold mt-2">{stats.avgResponseTime}</p>
             <p className="text-gray-500 text-sm mt-2">Per message</p>
           </div>
+          
+          <div className="bg-[#0a0a0a] border border-[#333333] p-6">
+            <h3 className="text-gray-500 text-xs uppercase tracking-wider">Cache Hits</h3>
+            <p className="text-4xl font-bold mt-2">{stats.cacheHits}</p>
+            <p className="text-gray-500 text-sm mt-2">{(stats.cacheHitRate * 100).toFixed(0)}% of replies</p>
+          </div>
         </div>
 
         {/* Models Used */}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { getUsageStats } from '@/lib/analytics';
+import { requireUser } from '@/lib/auth';
+
+// Dashboard totals for the signed-in user only
+export async function GET() {
+  try {
+    const { userId } = await requireUser('Sign in to view your analytics.');
+    return NextResponse.json({ stats: await getUsageStats(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
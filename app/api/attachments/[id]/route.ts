@@ -0,0 +1,25 @@
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { loadImage } from '@/lib/attachments';
+import { requireUser } from '@/lib/auth';
+
+// The bytes of an attached image, so conversations show their images again after a reload
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser('Sign in to view attachments.');
+
+    const { id } = await params;
+    const image = await loadImage(user, id);
+    if (!image) {
+      throw new ApiError('invalid_input', 'Image not found.', { id });
+    }
+
+    return new Response(new Uint8Array(image.bytes), {
+      headers: {
+        'Content-Type': image.mediaType,
+        'Cache-Control': 'private, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { isImageUpload, saveAttachment, saveImageAttachment } from '@/lib/attachments';
+import { extractDocument } from '@/lib/documents';
+
+// Extract and store a chat attachment, or store an image as is; messages then refer to it by id
+export async function POST(req: Request) {
+  try {
+    const { userId } = await requireUser('Sign in to attach files.');
+
+    const formData = await req.formData().catch(() => {
+      throw new ApiError('invalid_input', 'Expected multipart form data with a file field.');
+    });
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new ApiError('invalid_input', 'No file provided');
+    }
+
+    if (isImageUpload(file)) {
+      return NextResponse.json({ attachment: await saveImageAttachment(userId, file), warnings: [] });
+    }
+
+    const document = await extractDocument(file);
+    const attachment = await saveAttachment(userId, document);
+    return NextResponse.json({ attachment, warnings: document.warnings });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
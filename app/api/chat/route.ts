@@ -1,130 +1,255 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import Groq from 'groq-sdk';
+import { getModelConfig, smallestWindowModel, supportsVision } from '@/lib/ai-models';
+import { ApiError, errorResponse, toApiError } from '@/lib/api-errors';
+import { inlineAttachments } from '@/lib/attachments';
+import { requireUser } from '@/lib/auth';
+import { formatKnowledgeContext, knowledgeScope, retrieveKnowledge } from '@/lib/knowledge';
+import { assertConversationAccess } from '@/lib/ownership';
+import { discoverLocalModels, resolveModel, type ChatMessage, type ChatUsage } from '@/lib/providers';
+import { FailoverError } from '@/lib/providers/errors';
+import { chatWithFailover, getFallbackChain, streamWithFailover } from '@/lib/providers/failover';
+import { prepareContext, SUMMARY_MAX_TOKENS, truncateToTokens } from '@/lib/context-window';
+import { createSSEResponse } from '@/lib/stream-utils';
+import { consumeQuota, enforceQuota } from '@/lib/quota';
+import { formatSearchContext, isWebSearchConfigured, runWebSearch, type Citation } from '@/lib/search';
+import { cacheKey, cacheResponse, getCachedResponse, isCacheable } from '@/lib/response-cache';
+import { composeSystemPrompt, loadPersona } from '@/lib/system-prompt';
+import { DEFAULT_TOOL_SCOPES } from '@/lib/tools';
+import { runWithTools } from '@/lib/tools/runner';
+import { recordUsage, type UsageOutcome } from '@/lib/usage';
 
-// Initialize API clients only if API keys are present
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-}) : null;
-
-const anthropic = process.env.ANTHROPIC_API_KEY ? new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-}) : null;
-
-const googleAI = process.env.GOOGLE_AI_API_KEY 
-  ? new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY)
-  : null;
-
-const groq = process.env.GROQ_API_KEY ? new Groq({
-  apiKey: process.env.GROQ_API_KEY,
-}) : null;
+interface UsageSummary {
+  cost: number;
+  latencyMs: number;
+}
 
 export async function POST(req: Request) {
+  const startedAt = Date.now();
+  let meter: ((outcome: UsageOutcome) => Promise<UsageSummary>) | null = null;
+
   try {
-    const { messages, model = 'gpt-3.5-turbo', temperature = 0.7, max_tokens = 2048 } = await req.json();
+    const quotaSubject = await requireUser('Sign in to chat.');
+    const { userId, orgId } = quotaSubject;
+    const {
+      messages,
+      model = 'gpt-3.5-turbo',
+      temperature = 0.7,
+      max_tokens = 2048,
+      stream = false,
+      custom_instructions,
+      persona_id,
+      conversation_id,
+      web_search = false,
+      tools = false,
+      code_execution = false,
+      // Compare mode turns this off so each column shows the model that was asked
+      fallback = true,
+      // Opt in to reusing an identical earlier reply; cache_sampled also allows temperature > 0
+      cache = false,
+      cache_sampled = false,
+      // Retrieve from the conversation's and workspace's uploaded documents
+      knowledge = false,
+    } = await req.json();
 
-    let responseContent = '';
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ApiError('invalid_input', 'messages must be a non-empty array.');
+    }
+    // Self-hosted models are only known once the endpoint has been asked for them
+    await discoverLocalModels();
+    if (!resolveModel(model)) {
+      throw new ApiError('invalid_input', `Unknown model "${model}". Please select a valid AI model.`, { model });
+    }
 
-    // Handle different models
-    if (model.startsWith('gpt')) {
-      // OpenAI models
-      if (!openai) {
-        return NextResponse.json({
-          content: "To use GPT models, please add your OPENAI_API_KEY in Vercel settings."
-        });
-      }
+    if (conversation_id) await assertConversationAccess(quotaSubject, conversation_id);
+    await enforceQuota(quotaSubject);
 
-      try {
-        const completion = await openai.chat.completions.create({
-          model,
-          messages,
-          temperature,
-          max_tokens,
-        });
+    meter = async (outcome) => {
+      const latencyMs = Date.now() - startedAt;
+      const consumed = await recordUsage({
+        ...outcome,
+        user_id: userId,
+        conversation_id: conversation_id || null,
+        kind: 'chat',
+        latency_ms: latencyMs,
+      });
+      await consumeQuota(quotaSubject, consumed);
+      return { cost: consumed.cost, latencyMs };
+    };
 
-        responseContent = completion.choices[0]?.message?.content || 'No response generated';
-      } catch (error: any) {
-        console.error('OpenAI API error:', error);
-        responseContent = `Error: ${error.message}. Please check your OpenAI API key.`;
-      }
-    } else if (model.includes('claude')) {
-      // Anthropic Claude models
-      if (!anthropic) {
-        return NextResponse.json({
-          content: "To use Claude models, please add your ANTHROPIC_API_KEY in Vercel settings."
-        });
-      }
+    const candidates = fallback ? getFallbackChain(model) : [model];
+    const attached = await inlineAttachments(messages, quotaSubject, candidates);
+    const hasImages = attached.messages.some(m => m.images?.length);
+    // A fallback that cannot see the images would answer without them
+    const chain = candidates.filter(id => !hasImages || supportsVision(id));
+    const warnings = attached.hiddenImages.length > 0
+      ? [`${getModelConfig(model).name} cannot view images, so ${attached.hiddenImages.join(', ')} was not sent. Switch to a vision model such as GPT-4o or Claude 3.5 Sonnet.`]
+      : [];
+    const persona = persona_id ? await loadPersona(quotaSubject, persona_id, conversation_id) : null;
+    let system = composeSystemPrompt({ customInstructions: custom_instructions, persona });
 
+    const question: string | undefined = [...messages].reverse().find((m: ChatMessage) => m.role === 'user')?.content;
+    let citations: Citation[] = [];
+    if (web_search && question && !isWebSearchConfigured()) {
+      warnings.push('Web search is not set up on this server, so this answer has no web sources.');
+    } else if (web_search && question) {
       try {
-        // Use the correct Claude model ID
-        const claudeModel = 'claude-3-5-sonnet-20241022';
-        
-        const message = await anthropic.messages.create({
-          model: claudeModel,
-          max_tokens: max_tokens,
-          temperature: temperature,
-          messages: messages.filter((m: any) => m.role !== 'system').map((m: any) => ({
-            role: m.role === 'user' ? 'user' : 'assistant',
-            content: m.content,
-          })),
-          system: messages.find((m: any) => m.role === 'system')?.content,
-        });
-
-        responseContent = message.content[0].type === 'text' ? message.content[0].text : 'No response generated';
-      } catch (error: any) {
-        console.error('Anthropic API error:', error);
-        responseContent = `Error: ${error.message}. Please check your Anthropic API key.`;
-      }
-    } else if (model.includes('gemini')) {
-      // Google Gemini models
-      if (!googleAI) {
-        return NextResponse.json({
-          content: "To use Gemini models, please add your GOOGLE_AI_API_KEY in Vercel settings."
-        });
+        citations = await runWebSearch(question);
+      } catch (error) {
+        // Answer without sources rather than failing the whole turn
+        console.error('Web search error:', error);
       }
+      if (citations.length > 0) system += `\n\n${formatSearchContext(citations)}`;
+    }
 
+    if (knowledge && question) {
+      let excerpts: Citation[] = [];
       try {
-        const genModel = googleAI.getGenerativeModel({ model: "gemini-pro" });
-        const lastMessage = messages[messages.length - 1].content;
-        const result = await genModel.generateContent(lastMessage);
-        const response = await result.response;
-        responseContent = response.text();
-      } catch (error: any) {
-        console.error('Google AI API error:', error);
-        responseContent = `Error: ${error.message}. Please check your Google AI API key.`;
+        // Numbered after the web results so both kinds of source can be cited in one reply
+        excerpts = await retrieveKnowledge(knowledgeScope(userId, orgId, conversation_id), question, citations.length + 1);
+      } catch (error) {
+        if (error instanceof ApiError) throw error;
+        console.error('Knowledge retrieval error:', error);
       }
-    } else if (model.includes('llama') || model.includes('mixtral')) {
-      // Groq models (Llama, Mixtral)
-      if (!groq) {
-        return NextResponse.json({
-          content: "To use Llama/Mixtral models, please add your GROQ_API_KEY in Vercel settings."
-        });
+      if (excerpts.length > 0) {
+        citations = [...citations, ...excerpts];
+        system += `\n\n${formatKnowledgeContext(excerpts)}`;
       }
+    }
 
-      try {
-        const completion = await groq.chat.completions.create({
-          messages,
-          model,
-          temperature,
-          max_tokens,
+    const context = await prepareContext({
+      chain,
+      system,
+      messages: attached.messages,
+      maxTokens: max_tokens,
+      conversationId: conversation_id,
+      summarize: async (previousSummary, turns) => {
+        const summarized = await summarizeTurns(chain, previousSummary, turns, userId);
+        const consumed = await recordUsage({
+          user_id: userId,
+          conversation_id: conversation_id || null,
+          kind: 'summary',
+          model: summarized.model,
+          usage: summarized.usage,
+          latency_ms: summarized.latencyMs,
+          status: 'success',
         });
-        responseContent = completion.choices[0]?.message?.content || 'No response generated';
-      } catch (error: any) {
-        console.error('Groq API error:', error);
-        responseContent = `Error: ${error.message}. Please check your Groq API key.`;
+        await consumeQuota(quotaSubject, consumed);
+        return summarized.content;
+      },
+    });
+    const request = {
+      ...context,
+      temperature,
+      maxTokens: max_tokens,
+      userId,
+    };
+
+    // The code execution toggle grants run_code; the tools toggle grants everything else
+    const toolScopes = DEFAULT_TOOL_SCOPES.filter(scope => (scope === 'code:execute' ? code_execution : tools));
+
+    // Tool results can change between runs, so tool turns are never cached
+    const responseCacheKey = cache && toolScopes.length === 0 && isCacheable(request, cache_sampled)
+      ? cacheKey(quotaSubject, model, request)
+      : null;
+    const cached = responseCacheKey ? await getCachedResponse(responseCacheKey) : null;
+    if (cached) {
+      const { latencyMs } = await meter({ model: cached.model, status: 'cached' });
+      const meta = { model: cached.model, citations, warnings, cached: true };
+
+      if (stream) return createSSEResponse(singleChunk(cached.content), { meta });
+      return NextResponse.json({ content: cached.content, usage: cached.usage, cost: 0, latencyMs, ...meta });
+    }
+
+    // Tool loops need the whole reply to see tool calls, so they run unstreamed and arrive as one chunk
+    if (toolScopes.length > 0) {
+      const { model: answeredBy, result, toolCalls } = await runWithTools({
+        chain,
+        request,
+        scopes: toolScopes,
+        context: { userId, orgId, conversationId: conversation_id },
+      });
+      const { cost, latencyMs } = await meter({ model: answeredBy, status: 'success', usage: result.usage });
+
+      if (stream) {
+        return createSSEResponse(singleChunk(result.content), { meta: { model: answeredBy, citations, warnings, toolCalls } });
       }
-    } else {
-      // Default fallback response
-      responseContent = "I'm ready to assist you! Please select a valid AI model or add the required API keys in your Vercel settings.";
+      return NextResponse.json({
+        content: result.content,
+        model: answeredBy,
+        usage: result.usage,
+        cost,
+        latencyMs,
+        citations,
+        warnings,
+        toolCalls,
+      });
     }
 
-    return NextResponse.json({ content: responseContent });
-  } catch (error: any) {
-    console.error('API route error:', error);
-    return NextResponse.json({
-      content: "An error occurred processing your request. Please try again."
-    });
+    if (stream) {
+      const { model: answeredBy, chunks } = await streamWithFailover(chain, request);
+      const recordStream = meter;
+
+      return createSSEResponse((async function* () {
+        let usage: ChatUsage | undefined;
+        let content = '';
+        try {
+          for await (const chunk of chunks) {
+            if (chunk.type === 'text') {
+              content += chunk.text;
+              yield chunk.text;
+            } else {
+              usage = chunk.usage;
+            }
+          }
+          await recordStream({ model: answeredBy, status: 'success', usage });
+          if (responseCacheKey) await cacheResponse(responseCacheKey, { content, model: answeredBy, usage });
+        } catch (error) {
+          await recordStream({ model: answeredBy, status: 'error', usage });
+          throw error;
+        }
+      })(), {
+        meta: { model: answeredBy, citations, warnings },
+        toErrorPayload: (error) => toApiError(error).toPayload(),
+      });
+    }
+
+    const { model: answeredBy, result } = await chatWithFailover(chain, request);
+    const { cost, latencyMs } = await meter({ model: answeredBy, status: 'success', usage: result.usage });
+    if (responseCacheKey) {
+      await cacheResponse(responseCacheKey, { content: result.content, model: answeredBy, usage: result.usage });
+    }
+    return NextResponse.json({ content: result.content, model: answeredBy, usage: result.usage, cost, latencyMs, citations, warnings });
+  } catch (error) {
+    // Only calls that reached the provider layer are metered
+    if (meter && error instanceof FailoverError) {
+      await meter({ model: error.attempts[error.attempts.length - 1].model, status: 'error' });
+    }
+    return errorResponse(error);
   }
 }
+
+const summarizeTurns = async (
+  chain: string[],
+  previousSummary: string | undefined,
+  turns: ChatMessage[],
+  userId: string
+) => {
+  const transcript = [
+    previousSummary && `Previous summary:\n${previousSummary}`,
+    ...turns.map(m => `${m.role.toUpperCase()}: ${m.content}`),
+  ].filter(Boolean).join('\n\n');
+
+  const startedAt = Date.now();
+  const { model: summarizedBy, result } = await chatWithFailover(chain, {
+    system: 'Summarize the conversation below for your own later reference. Keep names, decisions, numbers, open questions and user preferences. Reply with the summary only.',
+    messages: [{ role: 'user', content: truncateToTokens(transcript, Math.floor(smallestWindowModel(chain).contextWindow / 2)) }],
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    userId,
+  });
+  return { ...result, model: summarizedBy, latencyMs: Date.now() - startedAt };
+};
+
+async function* singleChunk(content: string) {
+  yield content;
+}
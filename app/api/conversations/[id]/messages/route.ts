@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { appendMessage } from '@/lib/conversations';
+
+// Append one message; body: { role, content, parent_id?, type?, model?, citations?, tool_calls?, attachments?, image_id? }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser('Sign in to send messages.');
+    const { id } = await params;
+    const { role, content, parent_id, type, model, citations, tool_calls, attachments, image_id } = await req.json();
+
+    const message = await appendMessage(user, id, { role, content, parent_id, type, model, citations, tool_calls, attachments, image_id });
+    return NextResponse.json({ message });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
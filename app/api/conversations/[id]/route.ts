@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { deleteConversation, getConversation, updateConversation } from '@/lib/conversations';
+
+type Params = { params: Promise<{ id: string }> };
+
+// The conversation and its messages, oldest first
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const user = await requireUser('Sign in to view this conversation.');
+    const { id } = await params;
+    return NextResponse.json(await getConversation(user, id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// body: any of { title, model, persona_id, active_leaf_id, folder_id, pinned, tags }
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser('Sign in to update this conversation.');
+    const { id } = await params;
+    const { title, model, persona_id, active_leaf_id, folder_id, pinned, tags } = await req.json();
+    const conversation = await updateConversation(user, id, { title, model, persona_id, active_leaf_id, folder_id, pinned, tags });
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const user = await requireUser('Sign in to delete this conversation.');
+    const { id } = await params;
+    await deleteConversation(user, id);
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { bulkUpdateConversations, exportConversations } from '@/lib/conversations';
+
+// body: { ids, action: 'move' | 'tag' | 'untag' | 'delete' | 'export', folder_id?, tags? }
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser('Sign in to manage your conversations.');
+    const { ids, action, folder_id, tags } = await req.json();
+
+    if (action === 'export') {
+      return NextResponse.json({ conversations: await exportConversations(user, ids) });
+    }
+    const updated = await bulkUpdateConversations(user, ids, { action, folder_id, tags });
+    return NextResponse.json(action === 'delete' ? { deleted: updated } : { updated });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
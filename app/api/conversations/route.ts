@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { createConversation, listConversations } from '@/lib/conversations';
+
+// The signed-in user's conversations, most recently active first
+export async function GET() {
+  try {
+    const user = await requireUser('Sign in to view your conversations.');
+    return NextResponse.json({ conversations: await listConversations(user) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// body: { title?, model?, persona_id?, folder_id?, tags? }
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser('Sign in to start a conversation.');
+    const { title, model, persona_id, folder_id, tags } = await req.json();
+    return NextResponse.json({ conversation: await createConversation(user, { title, model, persona_id, folder_id, tags }) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { enforceQuota } from '@/lib/quota';
+import { runCode, toSandboxLanguage } from '@/lib/sandbox';
+
+// Run a JavaScript or Python snippet from a chat code block
+export async function POST(req: Request) {
+  try {
+    const { userId, orgId } = await requireUser('Sign in to run code.');
+
+    const { language, code } = await req.json();
+    const sandboxLanguage = toSandboxLanguage(language);
+    if (!sandboxLanguage) {
+      throw new ApiError('invalid_input', `Running ${language || 'this'} code is not supported. Use JavaScript or Python.`, { language });
+    }
+    if (typeof code !== 'string') {
+      throw new ApiError('invalid_input', 'code must be a string.');
+    }
+
+    await enforceQuota({ userId, orgId });
+
+    return NextResponse.json(await runCode(sandboxLanguage, code));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { deleteFolder, updateFolder } from '@/lib/folders';
+
+type Params = { params: Promise<{ id: string }> };
+
+// body: any of { name, parent_id }
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { userId } = await requireUser('Sign in to manage your folders.');
+    const { id } = await params;
+    const { name, parent_id } = await req.json();
+    return NextResponse.json({ folder: await updateFolder(userId, id, { name, parent_id }) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { userId } = await requireUser('Sign in to manage your folders.');
+    const { id } = await params;
+    if (!(await deleteFolder(userId, id))) {
+      throw new ApiError('invalid_input', 'Folder not found.', { id });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
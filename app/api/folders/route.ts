@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { createFolder, listFolders } from '@/lib/folders';
+
+export async function GET() {
+  try {
+    const { userId } = await requireUser('Sign in to view your folders.');
+    return NextResponse.json({ folders: await listFolders(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// body: { name, parent_id? }
+export async function POST(req: Request) {
+  try {
+    const { userId } = await requireUser('Sign in to create folders.');
+    const { name, parent_id } = await req.json();
+    return NextResponse.json({ folder: await createFolder(userId, { name, parent_id }) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
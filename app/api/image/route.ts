@@ -1,30 +1,95 @@
 import OpenAI from 'openai';
 import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { IMAGE_QUALITIES, IMAGE_SIZES, IMAGE_STYLES, saveImage } from '@/lib/images';
+import { assertConversationAccess } from '@/lib/ownership';
+import { toProviderError } from '@/lib/providers/errors';
+import { consumeQuota, enforceQuota } from '@/lib/quota';
+import { calculateImageCost, recordUsage } from '@/lib/usage';
 
-const openai = new OpenAI({
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
-});
+}) : null;
 
+// Generate with DALL·E 3 and store the image, since the URLs OpenAI returns expire after about an hour
 export async function POST(req: Request) {
+  const startedAt = Date.now();
+
   try {
-    const { prompt, size = '1024x1024' } = await req.json();
-    
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: prompt,
-      n: 1,
-      size: size as any,
-      quality: "standard",
+    const quotaSubject = await requireUser('Sign in to generate images.');
+    const { userId } = quotaSubject;
+
+    const { prompt, size = '1024x1024', quality = 'standard', style = 'vivid', conversation_id } = await req.json();
+
+    if (!openai) {
+      throw new ApiError('configuration_error', 'To generate images, please add your OPENAI_API_KEY in Vercel settings.');
+    }
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      throw new ApiError('invalid_input', 'A prompt is required to generate an image.');
+    }
+    if (!IMAGE_SIZES.includes(size) || !IMAGE_QUALITIES.includes(quality) || !IMAGE_STYLES.includes(style)) {
+      throw new ApiError('invalid_input', `size must be one of ${IMAGE_SIZES.join(', ')}, quality one of ${IMAGE_QUALITIES.join(', ')} and style one of ${IMAGE_STYLES.join(', ')}.`, { size, quality, style });
+    }
+    if (conversation_id) await assertConversationAccess(quotaSubject, conversation_id);
+    await enforceQuota(quotaSubject);
+
+    let response;
+    try {
+      response = await openai.images.generate({
+        model: "dall-e-3",
+        prompt: prompt,
+        n: 1,
+        size,
+        quality,
+        style,
+        response_format: 'b64_json',
+        user: userId,
+      });
+    } catch (error) {
+      await recordUsage({
+        user_id: userId,
+        conversation_id: conversation_id || null,
+        kind: 'image',
+        model: 'dall-e-3',
+        cost: 0,
+        latency_ms: Date.now() - startedAt,
+        status: 'error',
+      });
+      throw toProviderError(error, 'OpenAI');
+    }
+
+    const consumed = await recordUsage({
+      user_id: userId,
+      conversation_id: conversation_id || null,
+      kind: 'image',
+      model: 'dall-e-3',
+      cost: calculateImageCost(size, quality),
+      latency_ms: Date.now() - startedAt,
+      status: 'success',
     });
+    await consumeQuota(quotaSubject, consumed);
+
+    const generated = response.data?.[0];
+    if (!generated?.b64_json) {
+      throw new ApiError('provider_unavailable', 'No image was returned. Please try again.');
+    }
 
-    return NextResponse.json({ 
-      imageUrl: response.data[0].url 
+    const image = await saveImage({
+      userId,
+      conversationId: conversation_id || null,
+      prompt: prompt.trim(),
+      revisedPrompt: generated.revised_prompt || null,
+      model: 'dall-e-3',
+      size,
+      quality,
+      style,
+      contentType: 'image/png',
+      bytes: Buffer.from(generated.b64_json, 'base64'),
     });
-  } catch (error: any) {
+    return NextResponse.json({ image, imageUrl: image.url });
+  } catch (error) {
     console.error('Image generation error:', error);
-    return NextResponse.json(
-      { error: error.message || 'Failed to generate image' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
-}
\ No newline at end of file
+}
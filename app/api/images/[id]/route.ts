@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { deleteImage, loadImageFile } from '@/lib/images';
+
+// The stored bytes of a generated image, for its creator and members of its conversation
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser('Sign in to view images.');
+    const { id } = await params;
+    const image = await loadImageFile(user, id);
+    if (!image) {
+      throw new ApiError('invalid_input', 'Image not found.', { id });
+    }
+
+    return new Response(new Uint8Array(image.bytes), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'private, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await requireUser('Sign in to manage your images.');
+    const { id } = await params;
+    if (!(await deleteImage(userId, id))) {
+      throw new ApiError('invalid_input', 'Image not found.', { id });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
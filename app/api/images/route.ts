@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { listImages } from '@/lib/images';
+
+// The signed-in user's generated images, newest first, for the gallery
+export async function GET() {
+  try {
+    const { userId } = await requireUser('Sign in to view your images.');
+
+    return NextResponse.json({ images: await listImages(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { extractDocument } from '@/lib/documents';
+import { deleteDocument, ingestDocument, knowledgeScope, listDocuments } from '@/lib/knowledge';
+import { assertConversationAccess } from '@/lib/ownership';
+import { enforceQuota } from '@/lib/quota';
+
+// Knowledge base documents for a conversation (conversation_id) plus the signed-in workspace
+
+const SIGN_IN_MESSAGE = 'Sign in to use the knowledge base.';
+
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const conversationId = new URL(req.url).searchParams.get('conversation_id');
+    const scope = knowledgeScope(user.userId, user.orgId, conversationId);
+    if (scope.conversationId) await assertConversationAccess(user, scope.conversationId);
+
+    return NextResponse.json({ documents: await listDocuments(scope) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// multipart: file, plus conversation_id to scope it to one conversation instead of the workspace
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const formData = await req.formData().catch(() => {
+      throw new ApiError('invalid_input', 'Expected multipart form data with a file field.');
+    });
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new ApiError('invalid_input', 'No file provided');
+    }
+    const conversationId = formData.get('conversation_id');
+
+    const scope = knowledgeScope(user.userId, user.orgId, typeof conversationId === 'string' ? conversationId : null);
+    if (scope.conversationId) await assertConversationAccess(user, scope.conversationId);
+    // Embedding the document is a paid provider call
+    await enforceQuota(user);
+    const extracted = await extractDocument(file);
+    const document = await ingestDocument(scope, extracted);
+    return NextResponse.json({ document, warnings: extracted.warnings });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { userId } = await requireUser(SIGN_IN_MESSAGE);
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      throw new ApiError('invalid_input', 'id is required.');
+    }
+
+    if (!(await deleteDocument(userId, id))) {
+      throw new ApiError('invalid_input', 'Document not found.', { id });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { listModels } from '@/lib/providers';
+
+// Models for the picker, including any served by the self-hosted endpoint
+export async function GET() {
+  try {
+    await requireUser();
+    return NextResponse.json({ models: await listModels() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
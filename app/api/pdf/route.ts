@@ -1,29 +1,24 @@
 import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { extractDocument } from '@/lib/documents';
 
+// Extract text per page from PDF, Office, CSV, Markdown and plain text uploads
 export async function POST(req: Request) {
   try {
-    const formData = await req.formData();
-    const file = formData.get('file') as File;
+    await requireUser('Sign in to upload documents.');
+    const formData = await req.formData().catch(() => {
+      throw new ApiError('invalid_input', 'Expected multipart form data with a file field.');
+    });
+    const file = formData.get('file');
     
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    if (!(file instanceof File)) {
+      throw new ApiError('invalid_input', 'No file provided');
     }
     
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    
-    // Simple text extraction (enhance with pdf-parse for better results)
-    const text = buffer.toString('utf-8').substring(0, 5000);
-    
-    return NextResponse.json({ 
-      text: text,
-      filename: file.name,
-      size: file.size 
-    });
+    return NextResponse.json(await extractDocument(file));
   } catch (error) {
-    return NextResponse.json(
-      { error: 'Failed to process PDF' },
-      { status: 500 }
-    );
+    console.error('Document processing error:', error);
+    return errorResponse(error);
   }
-}
\ No newline at end of file
+}
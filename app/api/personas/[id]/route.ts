@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { deletePersona } from '@/lib/system-prompt';
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await requireUser('Sign in to manage your personas.');
+    const { id } = await params;
+    if (!(await deletePersona(userId, id))) {
+      throw new ApiError('invalid_input', 'Persona not found.', { id });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { createPersona, listPersonas } from '@/lib/system-prompt';
+
+export async function GET() {
+  try {
+    const { userId } = await requireUser('Sign in to view your personas.');
+    return NextResponse.json({ personas: await listPersonas(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// body: { name, prompt }
+export async function POST(req: Request) {
+  try {
+    const { userId } = await requireUser('Sign in to save personas.');
+    const { name, prompt } = await req.json();
+    if (typeof name !== 'string' || typeof prompt !== 'string') {
+      throw new ApiError('invalid_input', 'name and prompt must be strings.');
+    }
+    return NextResponse.json({ persona: await createPersona(userId, name, prompt) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
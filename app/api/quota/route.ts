@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { getQuotaStatus } from '@/lib/quota';
+
+// Remaining requests, tokens and spend for the signed-in user (and their organization)
+export async function GET() {
+  try {
+    const { userId, orgId } = await requireUser('Sign in to view your quota.');
+
+    return NextResponse.json({ quota: await getQuotaStatus({ userId, orgId }) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
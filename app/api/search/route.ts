@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { requireUser } from '@/lib/auth';
+import { searchMessages } from '@/lib/message-search';
+
+// ?q=...&role=user|assistant&model=...&from=ISO&to=ISO
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser('Sign in to search your conversations.');
+    const params = new URL(req.url).searchParams;
+    const results = await searchMessages(user, params.get('q') || '', {
+      role: params.get('role'),
+      model: params.get('model'),
+      from: params.get('from'),
+      to: params.get('to'),
+    });
+    return NextResponse.json({ results });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
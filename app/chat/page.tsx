@@ -3,22 +3,35 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { UserButton, useUser } from "@clerk/nextjs";
 import { useRouter } from 'next/navigation';
-import { supabase, type Conversation } from '@/lib/supabase';
-import { AI_MODELS, getModelConfig } from '@/lib/ai-models';
+import type { Conversation, Folder, Message, Persona } from '@/lib/supabase';
+import { AI_MODELS, getAvailableModels, getModelConfig, registerModels, supportsVision, type AIModel } from '@/lib/ai-models';
 import { 
   copyToClipboardWithToast, 
   estimateTokens, 
   calculateCost,
   saveDraft,
   loadDraft,
-  searchMessages,
   generateSuggestedPrompts,
   formatRelativeTime,
   exportAsHTML,
+  extractCodeFromMessage,
   generateConversationSummary
 } from '@/lib/chat-utils';
-import { exportToMarkdown, exportToJSON, downloadFile } from '@/lib/export-utils';
+import { exportToMarkdown, exportToJSON, exportConversationsToJSON, downloadFile } from '@/lib/export-utils';
 import { VoiceInput, VoiceOutput } from '@/lib/voice-utils';
+import { isEventStream, readSSEStream } from '@/lib/stream-utils';
+import type { ApiErrorPayload } from '@/lib/api-errors';
+import type { QuotaUsage } from '@/lib/quota';
+import type { Citation } from '@/lib/search';
+import type { ToolCallRecord } from '@/lib/tools';
+import type { AttachmentRef } from '@/lib/attachments';
+import type { KnowledgeDocument } from '@/lib/knowledge';
+import type { MessageSearchHit } from '@/lib/message-search';
+import type { SandboxResult } from '@/lib/sandbox';
+import { toSandboxLanguage } from '@/lib/sandbox/languages';
+import { activePath, latestLeaf, pathTo, siblingsOf } from '@/lib/message-tree';
+import { IMAGE_QUALITIES, IMAGE_SIZE_LABELS, IMAGE_SIZES, IMAGE_STYLES, type ImageQuality, type ImageSize, type ImageStyle } from '@/lib/images/options';
+import type { GeneratedImage } from '@/lib/images';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Toaster, toast } from 'react-hot-toast';
 import { useHotkeys } from 'react-hotkeys-hook';
@@ -30,6 +43,75 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import 'katex/dist/katex.min.css';
 
+// One model's answer in compare mode
+type CompareColumn = {
+  model: string;
+  status: 'loading' | 'done' | 'error';
+  content?: string;
+  citations?: Citation[];
+  toolCalls?: ToolCallRecord[];
+  tokens?: number;
+  cost?: number;
+  latencyMs?: number;
+  error?: ApiErrorPayload;
+};
+
+type Comparison = {
+  conversationId: string;
+  history: ChatMessage[];
+  columns: CompareColumn[];
+};
+
+const MIN_COMPARE_MODELS = 2;
+const MAX_COMPARE_MODELS = 4;
+
+// dataTransfer type for a conversation dragged onto a folder
+const CONVERSATION_DRAG_TYPE = 'application/x-conversation-id';
+
+// Folders depth first, for pickers that show the tree as an indented list
+const flattenFolders = (folders: Folder[], parentId: string | null = null, depth = 0): { folder: Folder; depth: number }[] =>
+  folders
+    .filter(folder => folder.parent_id === parentId)
+    .flatMap(folder => [{ folder, depth }, ...flattenFolders(folders, folder.id, depth + 1)]);
+
+type ChatMessage = {
+  id?: string;
+  parentId?: string | null;
+  role: string;
+  content: string;
+  timestamp: Date;
+  type?: string;
+  imageUrl?: string;
+  edited?: boolean;
+  model?: string;
+  citations?: Citation[];
+  toolCalls?: ToolCallRecord[];
+  cached?: boolean;
+  fileAttachment?: AttachmentRef;
+};
+
+// Request shape for /api/chat; attachments travel by id and are inlined on the server.
+// Generated images reach the model as their prompt.
+const toApiMessages = (history: ChatMessage[]) => history.map(m => ({
+  role: m.role,
+  content: m.type === 'image' ? `[Generated image: ${m.content}]` : m.content,
+  ...(m.fileAttachment && { attachments: [m.fileAttachment.id] })
+}));
+
+const toChatMessage = (msg: Message): ChatMessage => ({
+  id: msg.id,
+  parentId: msg.parent_id,
+  role: msg.role,
+  content: msg.content,
+  timestamp: new Date(msg.created_at),
+  type: msg.type || 'text',
+  model: msg.model || undefined,
+  citations: msg.citations || undefined,
+  toolCalls: msg.tool_calls || undefined,
+  fileAttachment: msg.attachments?.[0],
+  imageUrl: msg.image_id ? `/api/images/${msg.image_id}` : undefined
+});
+
 export default function ChatPage() {
   const { isLoaded, isSignedIn, user } = useUser();
   const router = useRouter();
@@ -37,37 +119,53 @@ export default function ChatPage() {
   // Core State
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Array<{
-    id?: string;
-    role: string;
-    content: string;
-    timestamp: Date;
-    type?: string;
-    imageUrl?: string;
-    edited?: boolean;
-    model?: string;
-    fileAttachment?: {
-      name: string;
-      type: string;
-      url: string;
-    };
-  }>>([]);
+  // The branch being shown; messageTree holds every saved message including other branches
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messageTree, setMessageTree] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [chatError, setChatError] = useState<(ApiErrorPayload & { model: string }) | null>(null);
+  const [quota, setQuota] = useState<QuotaUsage[]>([]);
   
   // UI State
   const [showSidebar, setShowSidebar] = useState(true);
   const [selectedModel, setSelectedModel] = useState('gpt-3.5-turbo');
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>(AI_MODELS.slice(0, MIN_COMPARE_MODELS).map(m => m.id));
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  // Built-in models plus any discovered on the self-hosted endpoint
+  const [availableModels, setAvailableModels] = useState<AIModel[]>(AI_MODELS);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  // Search across every conversation; opening a hit focuses that message
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchRole, setSearchRole] = useState('');
+  const [searchModel, setSearchModel] = useState('');
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchHit[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const [conversationSearch, setConversationSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [modelFilter, setModelFilter] = useState('');
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  // Ticking conversations for a bulk action replaces opening them on click
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedChats, setSelectedChats] = useState<string[]>([]);
   const [showModelDetails, setShowModelDetails] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showPromptLibrary, setShowPromptLibrary] = useState(false);
   const [showImageGen, setShowImageGen] = useState(false);
+  const [imagePrompt, setImagePrompt] = useState('');
+  const [imageSize, setImageSize] = useState<ImageSize>('1024x1024');
+  const [imageQuality, setImageQuality] = useState<ImageQuality>('standard');
+  const [imageStyle, setImageStyle] = useState<ImageStyle>('vivid');
+  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [attachedFile, setAttachedFile] = useState<File | null>(null);
   
   // Features State
@@ -78,9 +176,14 @@ export default function ChatPage() {
   const [maxTokens, setMaxTokens] = useState(2048);
   const [streamingEnabled, setStreamingEnabled] = useState(true);
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [toolsEnabled, setToolsEnabled] = useState(false);
+  const [knowledgeEnabled, setKnowledgeEnabled] = useState(false);
+  const [cacheEnabled, setCacheEnabled] = useState(false);
+  const [cacheSampled, setCacheSampled] = useState(false);
   const [customInstructions, setCustomInstructions] = useState('');
   const [codeExecutionEnabled, setCodeExecutionEnabled] = useState(false);
-  const [pinnedChats, setPinnedChats] = useState<string[]>([]);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(null);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [expandedCode, setExpandedCode] = useState<Set<number>>(new Set());
   const [copiedCode, setCopiedCode] = useState<number | null>(null);
@@ -110,17 +213,43 @@ export default function ChatPage() {
     }
   }, []);
   
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom, unless a search hit is being shown
   useEffect(() => {
+    if (focusedMessageId) {
+      document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, focusedMessageId]);
+  
+  // Search once the user pauses typing; a newer search cancels the one in flight
+  useEffect(() => {
+    if (!showSearch || !searchQuery.trim()) {
+      setSearchResults([]);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => runSearch(controller.signal), 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [showSearch, searchQuery, searchRole, searchModel, searchFrom, searchTo]);
   
   // Load conversations on mount
   useEffect(() => {
     if (isSignedIn && user) {
       loadConversations();
+      loadFolders();
+      loadPersonas();
+      loadQuota();
+      loadModels();
       const savedModel = localStorage.getItem('selectedModel');
       if (savedModel) setSelectedModel(savedModel);
+      const savedInstructions = localStorage.getItem('customInstructions');
+      if (savedInstructions) setCustomInstructions(savedInstructions);
     }
   }, [isSignedIn, user]);
   
@@ -150,10 +279,11 @@ export default function ChatPage() {
     setShowShortcuts(!showShortcuts);
   });
   
+  // Works from the composer too, so search is one keystroke away while typing
   useHotkeys('cmd+k, ctrl+k', (e) => {
     e.preventDefault();
     setShowSearch(!showSearch);
-  });
+  }, { enableOnFormTags: true });
   
   useHotkeys('escape', () => {
     setShowExportMenu(false);
@@ -170,61 +300,100 @@ export default function ChatPage() {
     if (!userId) return;
     
     try {
-      const { data, error } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false });
+      const response = await fetch('/api/conversations');
+      const data = await response.json();
       
-      if (error) {
-        console.error('Supabase error:', error);
+      if (!response.ok) {
+        console.error('Error loading conversations:', data.error);
         return;
       }
       
-      if (data) {
-        setConversations(data);
-      }
+      setConversations(data.conversations);
     } catch (error) {
       console.error('Exception loading conversations:', error);
     }
   };
   
-  const loadConversation = async (conversationId: string) => {
+  const loadFolders = async () => {
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
+      const response = await fetch('/api/folders');
+      const data = await response.json();
       
-      if (error) {
-        console.error('Error loading messages:', error);
+      if (!response.ok) {
+        console.error('Error loading folders:', data.error);
         return;
       }
       
-      if (data) {
-        const formattedMessages = data.map(msg => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(msg.created_at),
-          type: msg.type || 'text',
-          edited: msg.edited || false,
-          model: msg.model
-        }));
-        setMessages(formattedMessages);
-        setCurrentConversationId(conversationId);
-        
-        const conv = conversations.find(c => c.id === conversationId);
-        if (conv && conv.model) {
-          setSelectedModel(conv.model);
-        }
+      setFolders(data.folders);
+    } catch (error) {
+      console.error('Exception loading folders:', error);
+    }
+  };
+  
+  // focusMessageId opens the branch containing that message and scrolls to it
+  const loadConversation = async (conversationId: string, focusMessageId?: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`);
+      const data: { conversation: Conversation; messages: Message[] } & { error?: ApiErrorPayload } = await response.json();
+      
+      if (!response.ok) {
+        console.error('Error loading messages:', data.error);
+        toast.error(data.error?.message || 'Failed to load conversation');
+        return;
+      }
+      
+      const formattedMessages = data.messages.map(toChatMessage);
+      const focus = focusMessageId && formattedMessages.some(m => m.id === focusMessageId) ? focusMessageId : null;
+      setMessageTree(formattedMessages);
+      setMessages(focus
+        ? pathTo(formattedMessages, latestLeaf(formattedMessages, focus))
+        : activePath(formattedMessages, data.conversation.active_leaf_id));
+      setFocusedMessageId(focus);
+      setCurrentConversationId(conversationId);
+      
+      if (data.conversation.model) {
+        setSelectedModel(data.conversation.model);
       }
+      setSelectedPersonaId(data.conversation.persona_id || null);
     } catch (error) {
       console.error('Exception loading conversation:', error);
     }
   };
   
+  const runSearch = async (signal: AbortSignal) => {
+    const params = new URLSearchParams({ q: searchQuery.trim() });
+    if (searchRole) params.set('role', searchRole);
+    if (searchModel) params.set('model', searchModel);
+    // Date inputs give local calendar days; both ends are inclusive
+    if (searchFrom) params.set('from', new Date(`${searchFrom}T00:00:00`).toISOString());
+    if (searchTo) params.set('to', new Date(`${searchTo}T23:59:59.999`).toISOString());
+    
+    setIsSearching(true);
+    try {
+      const response = await fetch(`/api/search?${params}`, { signal });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        setSearchError(data.error?.message || 'Search failed');
+        setSearchResults([]);
+        return;
+      }
+      setSearchError(null);
+      setSearchResults(data.results);
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Search error:', error);
+      setSearchError('Could not reach the server. Check your connection and try again.');
+    } finally {
+      if (!signal.aborted) setIsSearching(false);
+    }
+  };
+  
+  const openSearchResult = async (hit: MessageSearchHit) => {
+    setShowSearch(false);
+    await loadConversation(hit.conversationId, hit.messageId);
+  };
+  
   const createNewConversation = async (firstMessage: string) => {
     const userId = getUserId();
     if (!userId) return null;
@@ -232,27 +401,21 @@ export default function ChatPage() {
     const title = firstMessage.slice(0, 50) + (firstMessage.length > 50 ? '...' : '');
     
     try {
-      const { data, error } = await supabase
-        .from('conversations')
-        .insert([{
-          user_id: userId,
-          title,
-          model: selectedModel,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }])
-        .select()
-        .single();
+      // The server shares it with the active workspace, if any
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, model: selectedModel, persona_id: selectedPersonaId })
+      });
+      const data = await response.json();
       
-      if (error) {
-        console.error('Error creating conversation:', error);
+      if (!response.ok) {
+        console.error('Error creating conversation:', data.error);
         return null;
       }
       
-      if (data) {
-        await loadConversations();
-        return data.id;
-      }
+      await loadConversations();
+      return data.conversation.id as string;
     } catch (error) {
       console.error('Exception creating conversation:', error);
     }
@@ -263,13 +426,11 @@ export default function ChatPage() {
     try {
       const title = generateConversationSummary(messages);
       
-      await supabase
-        .from('conversations')
-        .update({ 
-          title,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', conversationId);
+      await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
       
       await loadConversations();
     } catch (error) {
@@ -277,39 +438,156 @@ export default function ChatPage() {
     }
   };
   
-  const saveMessage = async (conversationId: string, role: string, content: string) => {
+  const saveMessage = async (
+    conversationId: string,
+    role: string,
+    content: string,
+    extras: {
+      parentId?: string;
+      model?: string;
+      citations?: Citation[];
+      toolCalls?: ToolCallRecord[];
+      attachments?: AttachmentRef[];
+      type?: string;
+      imageId?: string;
+    } = {}
+  ) => {
     const userId = getUserId();
     if (!userId) return null;
     
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .insert([{
-          conversation_id: conversationId,
-          user_id: userId,  // Add user_id here
+      const response = await fetch(`/api/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           role,
           content,
-          model: role === 'assistant' ? selectedModel : null,
-          created_at: new Date().toISOString()
-        }])
-        .select()
-        .single();
+          parent_id: extras.parentId,
+          model: role === 'assistant' ? (extras.model || selectedModel) : undefined,
+          citations: extras.citations,
+          tool_calls: extras.toolCalls,
+          attachments: extras.attachments,
+          type: extras.type,
+          image_id: extras.imageId
+        })
+      });
+      const data = await response.json();
       
-      if (error) {
-        console.error('Error saving message:', error);
+      if (!response.ok) {
+        console.error('Error saving message:', data.error);
         return null;
       }
       
-      return data;
+      const saved = toChatMessage(data.message);
+      setMessageTree(prev => [...prev, saved]);
+      // The shown copy was added before the server gave it an id
+      setMessages(prev => {
+        const index = prev.findIndex(m => !m.id && m.role === saved.role && m.content === saved.content);
+        return index === -1 ? prev : prev.map((m, i) => i === index ? { ...m, id: saved.id, parentId: saved.parentId } : m);
+      });
+      return saved;
     } catch (error) {
       console.error('Exception saving message:', error);
       return null;
     }
   };
   
+  const loadQuota = async () => {
+    try {
+      const response = await fetch('/api/quota');
+      if (!response.ok) return;
+      const data = await response.json();
+      setQuota(data.quota || []);
+    } catch (error) {
+      console.error('Error loading quota:', error);
+    }
+  };
+  
+  const loadModels = async () => {
+    try {
+      const response = await fetch('/api/models');
+      if (!response.ok) return;
+      const { models }: { models: AIModel[] } = await response.json();
+      // Let getModelConfig name discovered models on the client too
+      registerModels(models.filter(m => !AI_MODELS.some(builtIn => builtIn.id === m.id)));
+      setAvailableModels(getAvailableModels());
+    } catch (error) {
+      console.error('Error loading models:', error);
+    }
+  };
+  
+  const loadPersonas = async () => {
+    const userId = getUserId();
+    if (!userId) return;
+    
+    const response = await fetch('/api/personas');
+    const data = await response.json();
+    
+    if (!response.ok) {
+      console.error('Error loading personas:', data.error);
+      return;
+    }
+    setPersonas(data.personas);
+  };
+  
+  const createPersona = async (name: string, prompt: string) => {
+    const userId = getUserId();
+    if (!userId) return;
+    
+    const response = await fetch('/api/personas', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, prompt })
+    });
+    
+    if (!response.ok) {
+      console.error('Error creating persona:', (await response.json()).error);
+      toast.error('Failed to save persona');
+      return;
+    }
+    toast.success(`Persona "${name}" saved`);
+    await loadPersonas();
+  };
+  
+  const deletePersona = async (id: string) => {
+    const response = await fetch(`/api/personas/${id}`, { method: 'DELETE' });
+    
+    if (!response.ok) {
+      console.error('Error deleting persona:', (await response.json()).error);
+      toast.error('Failed to delete persona');
+      return;
+    }
+    if (selectedPersonaId === id) setSelectedPersonaId(null);
+    await loadPersonas();
+  };
+  
+  // Personas are chosen per conversation, so persist the choice on it
+  const selectPersona = async (id: string | null) => {
+    const previous = selectedPersonaId;
+    setSelectedPersonaId(id);
+    if (!currentConversationId) return;
+    
+    const response = await fetch(`/api/conversations/${currentConversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ persona_id: id })
+    });
+    
+    if (!response.ok) {
+      // e.g. a teammate's shared conversation, whose persona only its creator can change
+      toast.error((await response.json()).error?.message || 'Failed to change persona');
+      setSelectedPersonaId(previous);
+      return;
+    }
+    setConversations(prev => prev.map(c => c.id === currentConversationId ? { ...c, persona_id: id } : c));
+  };
+  
   const clearChat = () => {
     setMessages([]);
+    setMessageTree([]);
+    setFocusedMessageId(null);
     setCurrentConversationId(null);
+    setSelectedPersonaId(null);
     setInput('');
     setAttachedFile(null);
     toast.success('New chat started');
@@ -317,17 +595,13 @@ export default function ChatPage() {
   
   const deleteConversation = async (id: string) => {
     try {
-      // Delete messages first
-      await supabase
-        .from('messages')
-        .delete()
-        .eq('conversation_id', id);
-      
-      // Then delete conversation
-      await supabase
-        .from('conversations')
-        .delete()
-        .eq('id', id);
+      // Messages go with it on the server
+      const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error?.message || 'Failed to delete conversation');
+        return;
+      }
       
       await loadConversations();
       
@@ -350,6 +624,26 @@ export default function ChatPage() {
     }
   };
   
+  // Extract and store the attached file; the message then carries only a reference
+  const uploadAttachment = async (file: File): Promise<AttachmentRef | null> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error?.message || `Could not read ${file.name}`);
+        return null;
+      }
+      data.warnings?.forEach((warning: string) => toast(`${file.name}: ${warning}`));
+      return data.attachment;
+    } catch (error) {
+      console.error('Attachment upload error:', error);
+      toast.error(`Could not upload ${file.name}`);
+      return null;
+    }
+  };
+  
   const removeAttachment = () => {
     setAttachedFile(null);
     if (fileInputRef.current) {
@@ -357,49 +651,21 @@ export default function ChatPage() {
     }
   };
   
-  const handleSubmit = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    if (!input.trim() || isLoading) return;
-    
-    const userMessageContent = input.trim();
-    const userMessage = {
-      role: 'user',
-      content: userMessageContent,
-      timestamp: new Date(),
-      type: 'text' as const,
-      fileAttachment: attachedFile ? {
-        name: attachedFile.name,
-        type: attachedFile.type,
-        url: URL.createObjectURL(attachedFile)
-      } : undefined
-    };
-    
-    // Update UI immediately
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setAttachedFile(null);
+  // Ask the model for the next assistant turn; errors surface in the banner, never as messages
+  const requestCompletion = async (conversationId: string, history: ChatMessage[], model: string) => {
+    setChatError(null);
+    setFocusedMessageId(null);
     setIsLoading(true);
     setIsTyping(true);
     
-    let conversationId = currentConversationId;
-    
-    // Create new conversation if needed
-    if (!conversationId) {
-      conversationId = await createNewConversation(userMessageContent);
-      if (!conversationId) {
-        toast.error('Failed to create conversation');
-        setIsLoading(false);
-        setIsTyping(false);
-        return;
-      }
-      setCurrentConversationId(conversationId);
-    }
-    
-    // Save user message to database
-    const savedUserMessage = await saveMessage(conversationId, 'user', userMessageContent);
-    if (!savedUserMessage) {
-      console.error('Failed to save user message');
-    }
+    let assistantContent = '';
+    // The server may answer with a fallback model when the selected one fails
+    let answeredBy = model;
+    let citations: Citation[] = [];
+    let toolCalls: ToolCallRecord[] = [];
+    let streamStarted = false;
+    // Replies hang off the last turn sent, so a regenerated answer becomes a sibling of the old one
+    const parentId = history[history.length - 1]?.id;
     
     try {
       abortControllerRef.current = new AbortController();
@@ -408,77 +674,399 @@ export default function ChatPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content
-          })),
-          model: selectedModel,
+          messages: toApiMessages(history),
+          model,
           temperature,
           max_tokens: maxTokens,
           stream: streamingEnabled,
           web_search: webSearchEnabled,
-          custom_instructions: customInstructions
+          knowledge: knowledgeEnabled,
+          tools: toolsEnabled,
+          code_execution: codeExecutionEnabled,
+          cache: cacheEnabled,
+          cache_sampled: cacheSampled,
+          custom_instructions: customInstructions,
+          persona_id: selectedPersonaId,
+          conversation_id: conversationId
         }),
         signal: abortControllerRef.current.signal
       });
       
-      const data = await response.json();
-      
-      // FIXED: Check for errors in the response
-      if (!response.ok) {
-        const errorMessage = data.error || 'Failed to get response';
-        console.error('API Error:', errorMessage);
-        toast.error(errorMessage);
-        setIsLoading(false);
+      if (isEventStream(response)) {
+        // Render tokens as they arrive into a placeholder assistant message
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: '',
+          timestamp: new Date(),
+          model
+        }]);
+        streamStarted = true;
         setIsTyping(false);
-        return;
+        
+        let streamError: ApiErrorPayload | null = null;
+        await readSSEStream(response, (event) => {
+          if (event.type === 'start') {
+            answeredBy = event.model || answeredBy;
+            citations = event.citations || [];
+            toolCalls = event.toolCalls || [];
+            event.warnings?.forEach(warning => toast(warning));
+            const meta = { model: answeredBy, citations, toolCalls, cached: event.cached };
+            setMessages(prev => {
+              const updated = [...prev];
+              updated[updated.length - 1] = { ...updated[updated.length - 1], ...meta };
+              return updated;
+            });
+          } else if (event.type === 'delta') {
+            assistantContent += event.content;
+            const content = assistantContent;
+            setMessages(prev => {
+              const updated = [...prev];
+              updated[updated.length - 1] = { ...updated[updated.length - 1], content };
+              return updated;
+            });
+          } else if (event.type === 'error') {
+            streamError = event.error;
+          }
+        });
+        
+        if (streamError) {
+          // A broken stream is not a complete answer, so drop the partial message
+          setMessages(prev => prev.slice(0, -1));
+          showChatError(streamError, answeredBy);
+          return;
+        }
+      } else {
+        const data = await response.json();
+        
+        if (!response.ok) {
+          showChatError(data.error, model);
+          return;
+        }
+        
+        if (data.content) {
+          assistantContent = data.content;
+          answeredBy = data.model || model;
+          citations = data.citations || [];
+          toolCalls = data.toolCalls || [];
+          data.warnings?.forEach((warning: string) => toast(warning));
+          
+          // Update UI with assistant message
+          setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: data.content,
+            timestamp: new Date(),
+            model: answeredBy,
+            citations,
+            toolCalls,
+            cached: data.cached
+          }]);
+        }
       }
       
-      if (data.content) {
+      if (assistantContent) {
         const assistantMessage = {
           role: 'assistant',
-          content: data.content,
+          content: assistantContent,
           timestamp: new Date(),
-          model: selectedModel
+          model: answeredBy,
+          citations,
+          toolCalls
         };
         
-        // Update UI with assistant message
-        setMessages(prev => [...prev, assistantMessage]);
+        if (answeredBy !== model) {
+          toast(`${getModelConfig(model).name} was unavailable, answered by ${getModelConfig(answeredBy).name}`);
+        }
         
         // Save assistant message to database
-        const savedAssistantMessage = await saveMessage(conversationId, 'assistant', data.content);
+        const savedAssistantMessage = await saveMessage(conversationId, 'assistant', assistantContent, { parentId, model: answeredBy, citations, toolCalls });
         if (!savedAssistantMessage) {
           console.error('Failed to save assistant message');
         }
         
         // Update conversation title and timestamp
-        await updateConversationTitle(conversationId, [...messages, userMessage, assistantMessage]);
-        
-        // Update conversation's updated_at timestamp
-        await supabase
-          .from('conversations')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', conversationId);
+        await updateConversationTitle(conversationId, [...history, assistantMessage]);
         
         // Reload conversations to update sidebar
         await loadConversations();
         
         // Voice output if enabled
         if (voiceOutputEnabled && voiceOutputRef.current) {
-          voiceOutputRef.current.speak(data.content);
+          voiceOutputRef.current.speak(assistantContent);
         }
       }
     } catch (error: any) {
       if (error.name === 'AbortError') {
+        // Keep whatever was streamed before the user pressed stop
+        if (assistantContent) {
+          await saveMessage(conversationId, 'assistant', assistantContent, { parentId, model: answeredBy, citations, toolCalls });
+        } else if (streamStarted) {
+          setMessages(prev => prev.slice(0, -1));
+        }
         toast.success('Generation stopped');
       } else {
         console.error('Chat error:', error);
-        toast.error('Failed to get response. Please check your API keys.');
+        if (streamStarted) setMessages(prev => prev.slice(0, -1));
+        showChatError({
+          code: 'provider_unavailable',
+          message: 'Could not reach the server. Check your connection and try again.',
+          retryable: true
+        }, answeredBy);
       }
     } finally {
       setIsLoading(false);
       setIsTyping(false);
+      loadQuota();
+    }
+  };
+  
+  const showChatError = (error: ApiErrorPayload | undefined, model: string) => {
+    const payload = error || {
+      code: 'provider_unavailable' as const,
+      message: 'Failed to get response',
+      retryable: true
+    };
+    console.error('API Error:', payload);
+    setChatError({ ...payload, model });
+  };
+  
+  // Re-run the last turn, optionally on a different model, without re-sending the user message
+  const retryLastRequest = async (model?: string) => {
+    if (!currentConversationId || isLoading) return;
+    if (model) {
+      setSelectedModel(model);
+      localStorage.setItem('selectedModel', model);
     }
+    await requestCompletion(currentConversationId, messages, model || selectedModel);
+  };
+  
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!input.trim() || isLoading || comparison) return;
+    setFocusedMessageId(null);
+    
+    // Upload first so a file the server cannot read never reaches the conversation
+    let fileAttachment: AttachmentRef | undefined;
+    if (attachedFile) {
+      setIsLoading(true);
+      fileAttachment = await uploadAttachment(attachedFile) || undefined;
+      if (!fileAttachment) {
+        setIsLoading(false);
+        return;
+      }
+    }
+    
+    const userMessageContent = input.trim();
+    const parentId = messages[messages.length - 1]?.id;
+    const userMessage = {
+      parentId,
+      role: 'user',
+      content: userMessageContent,
+      timestamp: new Date(),
+      type: 'text' as const,
+      fileAttachment
+    };
+    
+    // Update UI immediately
+    setMessages(prev => [...prev, userMessage]);
+    setInput('');
+    removeAttachment();
+    setChatError(null);
+    setIsLoading(true);
+    setIsTyping(true);
+    
+    let conversationId = currentConversationId;
+    
+    // Create new conversation if needed
+    if (!conversationId) {
+      conversationId = await createNewConversation(userMessageContent);
+      if (!conversationId) {
+        toast.error('Failed to create conversation');
+        setIsLoading(false);
+        setIsTyping(false);
+        return;
+      }
+      setCurrentConversationId(conversationId);
+    }
+    
+    // Save user message to database
+    const savedUserMessage = await saveMessage(conversationId, 'user', userMessageContent, {
+      parentId,
+      attachments: fileAttachment && [fileAttachment]
+    });
+    if (!savedUserMessage) {
+      console.error('Failed to save user message');
+    }
+    
+    const history = [...messages, { ...userMessage, id: savedUserMessage?.id }];
+    if (compareMode) {
+      await runComparison(conversationId, history);
+    } else {
+      await requestCompletion(conversationId, history, selectedModel);
+    }
+  };
+  
+  // The prompt is saved as a user turn and the stored image as the assistant's reply
+  const generateImage = async () => {
+    const prompt = imagePrompt.trim();
+    if (!prompt || isGeneratingImage) return;
+    setIsGeneratingImage(true);
+    
+    try {
+      let conversationId = currentConversationId;
+      if (!conversationId) {
+        conversationId = await createNewConversation(prompt);
+        if (!conversationId) {
+          toast.error('Failed to create conversation');
+          return;
+        }
+        setCurrentConversationId(conversationId);
+      }
+      
+      const response = await fetch('/api/image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt,
+          size: imageSize,
+          quality: imageQuality,
+          style: imageStyle,
+          conversation_id: conversationId
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error?.message || 'Could not generate the image');
+        return;
+      }
+      
+      const image: GeneratedImage = data.image;
+      const caption = image.revisedPrompt || image.prompt;
+      setMessages(prev => [
+        ...prev,
+        { role: 'user', content: prompt, timestamp: new Date(), type: 'text' },
+        { role: 'assistant', content: caption, timestamp: new Date(), type: 'image', imageUrl: image.url, model: image.model }
+      ]);
+      const savedPrompt = await saveMessage(conversationId, 'user', prompt, { parentId: messages[messages.length - 1]?.id });
+      await saveMessage(conversationId, 'assistant', caption, {
+        parentId: savedPrompt?.id,
+        model: image.model,
+        type: 'image',
+        imageId: image.id
+      });
+      await loadConversations();
+      
+      setImagePrompt('');
+      setShowImageGen(false);
+    } catch (error) {
+      console.error('Image generation error:', error);
+      toast.error('Could not reach the server. Check your connection and try again.');
+    } finally {
+      setIsGeneratingImage(false);
+    }
+  };
+  
+  // Send the same turn to every compared model at once; nothing is saved until a winner is picked
+  const runComparison = async (conversationId: string, history: ChatMessage[]) => {
+    setIsTyping(false);
+    setComparison({
+      conversationId,
+      history,
+      columns: compareModels.map(model => ({ model, status: 'loading' }))
+    });
+    
+    const updateColumn = (model: string, update: Partial<CompareColumn>) => {
+      setComparison(prev => prev && {
+        ...prev,
+        columns: prev.columns.map(column => column.model === model ? { ...column, ...update } : column)
+      });
+    };
+    
+    await Promise.all(compareModels.map(async model => {
+      try {
+        const response = await fetch('/api/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            messages: toApiMessages(history),
+            model,
+            temperature,
+            max_tokens: maxTokens,
+            stream: false,
+            fallback: false,
+            web_search: webSearchEnabled,
+            knowledge: knowledgeEnabled,
+            tools: toolsEnabled,
+            code_execution: codeExecutionEnabled,
+            custom_instructions: customInstructions,
+            persona_id: selectedPersonaId,
+            conversation_id: conversationId
+          })
+        });
+        const data = await response.json();
+        
+        if (!response.ok) {
+          updateColumn(model, { status: 'error', error: data.error });
+          return;
+        }
+        updateColumn(model, {
+          status: 'done',
+          content: data.content,
+          citations: data.citations || [],
+          toolCalls: data.toolCalls || [],
+          tokens: data.usage ? data.usage.inputTokens + data.usage.outputTokens : undefined,
+          cost: data.cost,
+          latencyMs: data.latencyMs
+        });
+      } catch (error) {
+        updateColumn(model, {
+          status: 'error',
+          error: { code: 'provider_unavailable', message: 'Could not reach the server.', retryable: true }
+        });
+      }
+    }));
+    
+    setIsLoading(false);
+    loadQuota();
+  };
+  
+  // Keep the chosen answer as the assistant turn and continue the conversation with its model
+  const pickComparisonWinner = async (column: CompareColumn) => {
+    if (!comparison || !column.content) return;
+    const { conversationId, history } = comparison;
+    
+    const assistantMessage = {
+      role: 'assistant',
+      content: column.content,
+      timestamp: new Date(),
+      model: column.model,
+      citations: column.citations,
+      toolCalls: column.toolCalls
+    };
+    setMessages(prev => [...prev, assistantMessage]);
+    setComparison(null);
+    setSelectedModel(column.model);
+    localStorage.setItem('selectedModel', column.model);
+    
+    const saved = await saveMessage(conversationId, 'assistant', column.content, {
+      parentId: history[history.length - 1]?.id,
+      model: column.model,
+      citations: column.citations,
+      toolCalls: column.toolCalls
+    });
+    if (!saved) {
+      console.error('Failed to save assistant message');
+    }
+    
+    await updateConversationTitle(conversationId, [...history, assistantMessage]);
+  };
+  
+  const toggleCompareModel = (modelId: string) => {
+    setCompareModels(prev => {
+      if (prev.includes(modelId)) {
+        return prev.length > MIN_COMPARE_MODELS ? prev.filter(id => id !== modelId) : prev;
+      }
+      return prev.length < MAX_COMPARE_MODELS ? [...prev, modelId] : prev;
+    });
   };
   
   const stopGeneration = () => {
@@ -489,22 +1077,71 @@ export default function ChatPage() {
     }
   };
   
+  // The previous answer stays in the tree as a sibling of the new one
   const regenerateLastMessage = async () => {
-    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
-    if (!lastUserMessage) return;
+    if (!currentConversationId || isLoading) return;
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+    
+    const history = messages.slice(0, lastUserIndex + 1);
+    setMessages(history);
+    await requestCompletion(currentConversationId, history, selectedModel);
+  };
+  
+  // An edit is saved as a new branch beside the original; an edited question is answered again
+  const editMessage = async (index: number, newContent: string) => {
+    const original = messages[index];
+    const content = newContent.trim();
+    if (!content || content === original.content || isLoading) return;
     
-    const messagesWithoutLastAssistant = messages.slice(0, -1);
-    setMessages(messagesWithoutLastAssistant);
+    const history = messages.slice(0, index);
+    const parentId = history[history.length - 1]?.id;
+    const edited = { ...original, id: undefined, parentId, content, edited: true, timestamp: new Date() };
+    setMessages([...history, edited]);
+    if (!currentConversationId) return;
     
-    setInput(lastUserMessage.content);
-    await handleSubmit();
+    const saved = await saveMessage(currentConversationId, original.role, content, {
+      parentId,
+      model: original.model,
+      attachments: original.fileAttachment && [original.fileAttachment]
+    });
+    if (!saved) {
+      toast.error('Failed to save the edit');
+      return;
+    }
+    if (original.role === 'user') {
+      await requestCompletion(currentConversationId, [...history, { ...edited, id: saved.id }], selectedModel);
+    }
+  };
+  
+  // Show another version of a message, continued down its most recent replies
+  const switchBranch = async (sibling: ChatMessage) => {
+    if (!sibling.id || isLoading) return;
+    const leafId = latestLeaf(messageTree, sibling.id);
+    setMessages(pathTo(messageTree, leafId));
+    if (!currentConversationId) return;
+    
+    // Reopening the conversation returns to this branch
+    const response = await fetch(`/api/conversations/${currentConversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active_leaf_id: leafId })
+    });
+    if (!response.ok) {
+      console.error('Error saving active branch:', (await response.json()).error);
+    }
   };
   
-  const editMessage = (index: number, newContent: string) => {
-    const updatedMessages = [...messages];
-    updatedMessages[index].content = newContent;
-    updatedMessages[index].edited = true;
-    setMessages(updatedMessages);
+  const branchOf = (message: ChatMessage) => {
+    const siblings = siblingsOf(messageTree, message);
+    if (siblings.length < 2) return undefined;
+    const index = siblings.findIndex(s => s.id === message.id);
+    return {
+      index,
+      count: siblings.length,
+      onPrev: index > 0 ? () => switchBranch(siblings[index - 1]) : undefined,
+      onNext: index < siblings.length - 1 ? () => switchBranch(siblings[index + 1]) : undefined
+    };
   };
   
   const handleExport = (format: 'markdown' | 'json' | 'html') => {
@@ -549,12 +1186,139 @@ export default function ChatPage() {
     setTimeout(() => setCopiedCode(null), 2000);
   };
   
-  const togglePinChat = (id: string) => {
-    setPinnedChats(prev => 
-      prev.includes(id) 
-        ? prev.filter(p => p !== id)
-        : [...prev, id]
-    );
+  // Pin, tag or file a conversation; the sidebar updates first and is reloaded if the server refuses
+  const organizeConversation = async (id: string, fields: Pick<Partial<Conversation>, 'pinned' | 'tags' | 'folder_id'>) => {
+    setConversations(prev => prev.map(c => c.id === id ? { ...c, ...fields } : c));
+    
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields)
+    });
+    const data = await response.json();
+    
+    if (!response.ok) {
+      toast.error(data.error?.message || 'Failed to update conversation');
+      await loadConversations();
+      return;
+    }
+    setConversations(prev => prev.map(c => c.id === id ? data.conversation : c));
+  };
+  
+  const togglePinChat = (conversation: Conversation) => {
+    organizeConversation(conversation.id, { pinned: !conversation.pinned });
+  };
+  
+  const moveConversation = (id: string, folderId: string | null) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation || (conversation.folder_id || null) === folderId) return;
+    organizeConversation(id, { folder_id: folderId });
+  };
+  
+  const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+  
+  const editTags = (conversation: Conversation) => {
+    const text = prompt('Tags, separated by commas', (conversation.tags || []).join(', '));
+    if (text === null) return;
+    organizeConversation(conversation.id, { tags: parseTags(text) });
+  };
+  
+  const createFolder = async (parentId: string | null = null) => {
+    const name = prompt(parentId ? 'Subfolder name' : 'Folder name');
+    if (!name?.trim()) return;
+    
+    const response = await fetch('/api/folders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, parent_id: parentId })
+    });
+    if (!response.ok) {
+      toast.error((await response.json()).error?.message || 'Failed to create folder');
+      return;
+    }
+    if (parentId) setCollapsedFolders(prev => prev.filter(id => id !== parentId));
+    await loadFolders();
+  };
+  
+  const renameFolder = async (folder: Folder) => {
+    const name = prompt('Rename folder', folder.name);
+    if (!name?.trim() || name.trim() === folder.name) return;
+    
+    const response = await fetch(`/api/folders/${folder.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    if (!response.ok) {
+      toast.error((await response.json()).error?.message || 'Failed to rename folder');
+      return;
+    }
+    await loadFolders();
+  };
+  
+  const deleteFolder = async (folder: Folder) => {
+    if (!confirm(`Delete "${folder.name}" and its subfolders? The conversations in them are kept.`)) return;
+    
+    const response = await fetch(`/api/folders/${folder.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      toast.error((await response.json()).error?.message || 'Failed to delete folder');
+      return;
+    }
+    // Their conversations moved back to the top level on the server
+    await Promise.all([loadFolders(), loadConversations()]);
+  };
+  
+  const toggleFolder = (id: string) => {
+    setCollapsedFolders(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
+  };
+  
+  const toggleSelectedChat = (id: string) => {
+    setSelectedChats(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+  
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedChats([]);
+  };
+  
+  const runBulkAction = async (action: 'move' | 'tag' | 'untag' | 'delete' | 'export', extras: { folder_id?: string | null; tags?: string[] } = {}) => {
+    if (selectedChats.length === 0) return;
+    if (action === 'delete' && !confirm(`Delete ${selectedChats.length} conversations? This cannot be undone.`)) return;
+    
+    try {
+      const response = await fetch('/api/conversations/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selectedChats, action, ...extras })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        toast.error(data.error?.message || 'Bulk action failed');
+        return;
+      }
+      
+      if (action === 'export') {
+        downloadFile(exportConversationsToJSON(data.conversations), 'conversations.json');
+        toast.success(`Exported ${data.conversations.length} conversations`);
+        return;
+      }
+      if (action === 'delete' && currentConversationId && selectedChats.includes(currentConversationId)) {
+        clearChat();
+      }
+      toast.success(`Updated ${selectedChats.length} conversations`);
+      exitSelectMode();
+      await loadConversations();
+    } catch (error) {
+      console.error('Bulk action error:', error);
+      toast.error('Could not reach the server. Check your connection and try again.');
+    }
+  };
+  
+  const bulkTag = (action: 'tag' | 'untag') => {
+    const text = prompt(action === 'tag' ? 'Add tags, separated by commas' : 'Remove tags, separated by commas');
+    const tags = text ? parseTags(text) : [];
+    if (tags.length > 0) runBulkAction(action, { tags });
   };
   
   const handleSuggestedPrompt = (prompt: string) => {
@@ -590,14 +1354,31 @@ export default function ChatPage() {
   
   const filteredConversations = conversations.filter(conv => 
     conv.title.toLowerCase().includes(conversationSearch.toLowerCase())
+    && (!tagFilter || conv.tags?.includes(tagFilter))
+    && (!modelFilter || conv.model === modelFilter)
   );
+  const isFilteringConversations = !!(conversationSearch || tagFilter || modelFilter);
+  const conversationTags = [...new Set(conversations.flatMap(c => c.tags || []))].sort();
+  const conversationModels = [...new Set(conversations.map(c => c.model).filter((m): m is string => !!m))];
   
-  const searchedMessages = showSearch && searchQuery 
-    ? searchMessages(messages, searchQuery)
-    : messages;
+  const pinnedConversations = filteredConversations.filter(c => c.pinned);
+  const unpinnedConversations = filteredConversations.filter(c => !c.pinned);
+  const unfiledConversations = unpinnedConversations.filter(c => !c.folder_id);
   
-  const pinnedConversations = filteredConversations.filter(c => pinnedChats.includes(c.id));
-  const unpinnedConversations = filteredConversations.filter(c => !pinnedChats.includes(c.id));
+  const renderConversation = (conv: Conversation) => (
+    <ConversationItem
+      key={conv.id}
+      conversation={conv}
+      isActive={currentConversationId === conv.id}
+      onSelect={() => selectMode ? toggleSelectedChat(conv.id) : loadConversation(conv.id)}
+      onDelete={() => deleteConversation(conv.id)}
+      onPin={() => togglePinChat(conv)}
+      onTag={() => editTags(conv)}
+      isPinned={!!conv.pinned}
+      selectable={selectMode}
+      isSelected={selectedChats.includes(conv.id)}
+    />
+  );
   
   if (!isLoaded) {
     return (
@@ -632,7 +1413,7 @@ export default function ChatPage() {
         type="file"
         className="hidden"
         onChange={handleFileAttachment}
-        accept="image/*,.pdf,.doc,.docx,.txt"
+        accept=".pdf,.docx,.pptx,.xlsx,.csv,.md,.txt,.png,.jpg,.jpeg,.gif,.webp"
       />
       
       {/* Keyboard Shortcuts Modal */}
@@ -663,7 +1444,7 @@ export default function ChatPage() {
                   <kbd className="bg-[#2a2a2a] px-2 py-1 rounded">Cmd/Ctrl + B</kbd>
                 </div>
                 <div className="flex justify-between">
-                  <span>Search</span>
+                  <span>Search All Conversations</span>
                   <kbd className="bg-[#2a2a2a] px-2 py-1 rounded">Cmd/Ctrl + K</kbd>
                 </div>
                 <div className="flex justify-between">
@@ -676,6 +1457,322 @@ export default function ChatPage() {
         )}
       </AnimatePresence>
       
+      {/* Settings Modal */}
+      <AnimatePresence>
+        {showSettings && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+            onClick={() => setShowSettings(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0.9 }}
+              className="bg-[#1a1a1a] border border-[#333] p-6 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-xl font-bold mb-4">Settings</h2>
+              <div className="space-y-4 text-sm">
+                <label className="flex items-center justify-between">
+                  <span>Stream responses</span>
+                  <input
+                    type="checkbox"
+                    checked={streamingEnabled}
+                    onChange={(e) => setStreamingEnabled(e.target.checked)}
+                  />
+                </label>
+                <label className="flex items-center justify-between">
+                  <span>Web search with citations</span>
+                  <input
+                    type="checkbox"
+                    checked={webSearchEnabled}
+                    onChange={(e) => setWebSearchEnabled(e.target.checked)}
+                  />
+                </label>
+                <label className="flex items-center justify-between">
+                  <span>Answer from uploaded documents</span>
+                  <input
+                    type="checkbox"
+                    checked={knowledgeEnabled}
+                    onChange={(e) => setKnowledgeEnabled(e.target.checked)}
+                  />
+                </label>
+                {knowledgeEnabled && <KnowledgeBase conversationId={currentConversationId} />}
+                <label className="flex items-center justify-between">
+                  <span>Tools (calculator, ticket lookup)</span>
+                  <input
+                    type="checkbox"
+                    checked={toolsEnabled}
+                    onChange={(e) => setToolsEnabled(e.target.checked)}
+                  />
+                </label>
+                <label className="flex items-center justify-between">
+                  <span>Reuse cached replies to identical prompts</span>
+                  <input
+                    type="checkbox"
+                    checked={cacheEnabled}
+                    onChange={(e) => setCacheEnabled(e.target.checked)}
+                  />
+                </label>
+                {cacheEnabled && (
+                  <label className="flex items-center justify-between pl-4 text-gray-400">
+                    <span>Also when temperature is above 0</span>
+                    <input
+                      type="checkbox"
+                      checked={cacheSampled}
+                      onChange={(e) => setCacheSampled(e.target.checked)}
+                    />
+                  </label>
+                )}
+                <label className="flex items-center justify-between">
+                  <span>Code execution</span>
+                  <input
+                    type="checkbox"
+                    checked={codeExecutionEnabled}
+                    onChange={(e) => setCodeExecutionEnabled(e.target.checked)}
+                  />
+                </label>
+                <label className="block">
+                  <div className="flex justify-between mb-1">
+                    <span>Temperature</span>
+                    <span className="text-gray-500">{temperature.toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={temperature}
+                    onChange={(e) => setTemperature(parseFloat(e.target.value))}
+                    className="w-full"
+                  />
+                </label>
+                <label className="block">
+                  <div className="flex justify-between mb-1">
+                    <span>Max tokens</span>
+                    <span className="text-gray-500">{maxTokens}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={256}
+                    max={8192}
+                    step={256}
+                    value={maxTokens}
+                    onChange={(e) => setMaxTokens(parseInt(e.target.value, 10))}
+                    className="w-full"
+                  />
+                </label>
+                <label className="block">
+                  <div className="mb-1">Custom instructions</div>
+                  <textarea
+                    value={customInstructions}
+                    onChange={(e) => {
+                      setCustomInstructions(e.target.value);
+                      localStorage.setItem('customInstructions', e.target.value);
+                    }}
+                    placeholder="How should CORPREX AI respond to you?"
+                    className="w-full p-2 bg-[#0a0a0a] border border-[#333333] focus:outline-none focus:border-white resize-none"
+                    rows={3}
+                  />
+                </label>
+                <PersonaManager
+                  personas={personas}
+                  onCreate={createPersona}
+                  onDelete={deletePersona}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      {/* Search Modal */}
+      <AnimatePresence>
+        {showSearch && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 pt-24"
+            onClick={() => setShowSearch(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0.9 }}
+              className="bg-[#1a1a1a] border border-[#333] p-4 rounded-lg w-full max-w-2xl"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <input
+                type="text"
+                placeholder="Search all conversations..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setShowSearch(false);
+                  if (e.key === 'Enter' && searchResults[0]) openSearchResult(searchResults[0]);
+                }}
+                className="w-full px-3 py-2 bg-[#0a0a0a] border border-[#333333] text-white placeholder-gray-500 focus:outline-none focus:border-white"
+                autoFocus
+              />
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                <select
+                  value={searchRole}
+                  onChange={(e) => setSearchRole(e.target.value)}
+                  className="px-2 py-1 bg-[#0a0a0a] border border-[#333333]"
+                >
+                  <option value="">Anyone</option>
+                  <option value="user">You</option>
+                  <option value="assistant">AI</option>
+                </select>
+                <select
+                  value={searchModel}
+                  onChange={(e) => setSearchModel(e.target.value)}
+                  className="px-2 py-1 bg-[#0a0a0a] border border-[#333333]"
+                >
+                  <option value="">Any model</option>
+                  {availableModels.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-1 text-gray-500">
+                  <span>From</span>
+                  <input
+                    type="date"
+                    value={searchFrom}
+                    onChange={(e) => setSearchFrom(e.target.value)}
+                    className="px-2 py-1 bg-[#0a0a0a] border border-[#333333] text-white"
+                  />
+                </label>
+                <label className="flex items-center space-x-1 text-gray-500">
+                  <span>To</span>
+                  <input
+                    type="date"
+                    value={searchTo}
+                    onChange={(e) => setSearchTo(e.target.value)}
+                    className="px-2 py-1 bg-[#0a0a0a] border border-[#333333] text-white"
+                  />
+                </label>
+              </div>
+              
+              <div className="mt-3 max-h-96 overflow-y-auto">
+                {searchError && (
+                  <div className="p-2 text-sm text-red-400">{searchError}</div>
+                )}
+                {!searchError && searchQuery.trim() && !isSearching && searchResults.length === 0 && (
+                  <div className="p-2 text-sm text-gray-500">No messages match.</div>
+                )}
+                {searchResults.map(hit => (
+                  <button
+                    key={hit.messageId}
+                    onClick={() => openSearchResult(hit)}
+                    className="block w-full text-left p-2 border-b border-[#333333] hover:bg-[#2a2a2a] transition-colors"
+                  >
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span className="truncate">
+                        {hit.conversationTitle} • {hit.role === 'user' ? 'You' : 'CORPREX AI'}
+                        {hit.role === 'assistant' && hit.model && ` • ${hit.model}`}
+                      </span>
+                      <span className="ml-2 shrink-0">{formatRelativeTime(new Date(hit.createdAt))}</span>
+                    </div>
+                    <div className="mt-1 text-sm text-gray-300">
+                      {hit.snippet.map((part, i) => part.match
+                        ? <mark key={i} className="bg-white text-black">{part.text}</mark>
+                        : <span key={i}>{part.text}</span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      {/* Image Generation Modal */}
+      <AnimatePresence>
+        {showImageGen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+            onClick={() => !isGeneratingImage && setShowImageGen(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0.9 }}
+              className="bg-[#1a1a1a] border border-[#333] p-6 rounded-lg w-full max-w-md"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-xl font-bold mb-4">Generate Image</h2>
+              <div className="space-y-4 text-sm">
+                <textarea
+                  value={imagePrompt}
+                  onChange={(e) => setImagePrompt(e.target.value)}
+                  placeholder="Describe the image"
+                  className="w-full p-2 bg-[#0a0a0a] border border-[#333333] focus:outline-none focus:border-white resize-none"
+                  rows={3}
+                  autoFocus
+                />
+                <label className="flex items-center justify-between">
+                  <span>Size</span>
+                  <select
+                    value={imageSize}
+                    onChange={(e) => setImageSize(e.target.value as ImageSize)}
+                    className="px-2 py-1 bg-[#0a0a0a] border border-[#333333]"
+                  >
+                    {IMAGE_SIZES.map(size => (
+                      <option key={size} value={size}>{IMAGE_SIZE_LABELS[size]} ({size})</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between">
+                  <span>Quality</span>
+                  <select
+                    value={imageQuality}
+                    onChange={(e) => setImageQuality(e.target.value as ImageQuality)}
+                    className="px-2 py-1 bg-[#0a0a0a] border border-[#333333]"
+                  >
+                    {IMAGE_QUALITIES.map(quality => <option key={quality} value={quality}>{quality}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between">
+                  <span>Style</span>
+                  <select
+                    value={imageStyle}
+                    onChange={(e) => setImageStyle(e.target.value as ImageStyle)}
+                    className="px-2 py-1 bg-[#0a0a0a] border border-[#333333]"
+                  >
+                    {IMAGE_STYLES.map(style => <option key={style} value={style}>{style}</option>)}
+                  </select>
+                </label>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setShowImageGen(false)}
+                    disabled={isGeneratingImage}
+                    className="px-3 py-1 border border-[#333333] hover:bg-[#0a0a0a] disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={generateImage}
+                    disabled={!imagePrompt.trim() || isGeneratingImage}
+                    className="px-3 py-1 bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    {isGeneratingImage ? 'Generating...' : 'Generate'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
       {/* Sidebar */}
       <AnimatePresence>
         {showSidebar && (
@@ -694,7 +1791,7 @@ export default function ChatPage() {
               </button>
             </div>
             
-            <div className="p-4 border-b border-[#333333]">
+            <div className="p-4 border-b border-[#333333] space-y-2">
               <input
                 type="text"
                 placeholder="Search conversations..."
@@ -702,45 +1799,146 @@ export default function ChatPage() {
                 onChange={(e) => setConversationSearch(e.target.value)}
                 className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#333333] text-white placeholder-gray-500 focus:outline-none focus:border-white"
               />
+              <div className="flex space-x-2">
+                <select
+                  value={tagFilter}
+                  onChange={(e) => setTagFilter(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-[#1a1a1a] border border-[#333333] text-sm focus:outline-none focus:border-white"
+                >
+                  <option value="">All tags</option>
+                  {conversationTags.map(tag => (
+                    <option key={tag} value={tag}>#{tag}</option>
+                  ))}
+                </select>
+                <select
+                  value={modelFilter}
+                  onChange={(e) => setModelFilter(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-[#1a1a1a] border border-[#333333] text-sm focus:outline-none focus:border-white"
+                >
+                  <option value="">All models</option>
+                  {conversationModels.map(model => (
+                    <option key={model} value={model}>
+                      {availableModels.find(m => m.id === model)?.name || model}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-between text-xs">
+                <button onClick={() => createFolder()} className="text-gray-500 hover:text-white">
+                  + New folder
+                </button>
+                <button
+                  onClick={() => selectMode ? exitSelectMode() : setSelectMode(true)}
+                  className="text-gray-500 hover:text-white"
+                >
+                  {selectMode ? 'Done' : 'Select'}
+                </button>
+              </div>
             </div>
             
+            {selectMode && (
+              <div className="p-3 border-b border-[#333333] space-y-2 text-xs">
+                <div className="text-gray-500">{selectedChats.length} selected</div>
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && runBulkAction('move', { folder_id: e.target.value === 'none' ? null : e.target.value })}
+                    disabled={selectedChats.length === 0}
+                    className="px-2 py-1 bg-[#1a1a1a] border border-[#333333] focus:outline-none focus:border-white disabled:opacity-50"
+                  >
+                    <option value="">Move to…</option>
+                    <option value="none">No folder</option>
+                    {flattenFolders(folders).map(({ folder, depth }) => (
+                      <option key={folder.id} value={folder.id}>
+                        {'\u00a0\u00a0'.repeat(depth)}{folder.name}
+                      </option>
+                    ))}
+                  </select>
+                  {(['tag', 'untag'] as const).map(action => (
+                    <button
+                      key={action}
+                      onClick={() => bulkTag(action)}
+                      disabled={selectedChats.length === 0}
+                      className="px-2 py-1 border border-[#333333] hover:border-white disabled:opacity-50"
+                    >
+                      {action === 'tag' ? 'Tag' : 'Untag'}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => runBulkAction('export')}
+                    disabled={selectedChats.length === 0}
+                    className="px-2 py-1 border border-[#333333] hover:border-white disabled:opacity-50"
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => runBulkAction('delete')}
+                    disabled={selectedChats.length === 0}
+                    className="px-2 py-1 border border-[#333333] hover:border-red-500 hover:text-red-500 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            )}
+            
             <div className="flex-1 overflow-y-auto">
               {pinnedConversations.length > 0 && (
                 <div className="p-2">
                   <div className="text-xs text-gray-500 uppercase tracking-wider px-2 mb-2">Pinned</div>
-                  {pinnedConversations.map(conv => (
-                    <ConversationItem
-                      key={conv.id}
-                      conversation={conv}
-                      isActive={currentConversationId === conv.id}
-                      onSelect={() => loadConversation(conv.id)}
-                      onDelete={() => deleteConversation(conv.id)}
-                      onPin={() => togglePinChat(conv.id)}
-                      isPinned={true}
-                    />
-                  ))}
+                  {pinnedConversations.map(renderConversation)}
                 </div>
               )}
               
-              {unpinnedConversations.length > 0 && (
-                <div className="p-2">
-                  <div className="text-xs text-gray-500 uppercase tracking-wider px-2 mb-2">Recent</div>
-                  {unpinnedConversations.map(conv => (
-                    <ConversationItem
-                      key={conv.id}
-                      conversation={conv}
-                      isActive={currentConversationId === conv.id}
-                      onSelect={() => loadConversation(conv.id)}
-                      onDelete={() => deleteConversation(conv.id)}
-                      onPin={() => togglePinChat(conv.id)}
-                      isPinned={false}
-                    />
-                  ))}
-                </div>
+              {isFilteringConversations ? (
+                unpinnedConversations.length > 0 && (
+                  <div className="p-2">
+                    <div className="text-xs text-gray-500 uppercase tracking-wider px-2 mb-2">Results</div>
+                    {unpinnedConversations.map(renderConversation)}
+                  </div>
+                )
+              ) : (
+                <>
+                  {folders.some(f => !f.parent_id) && (
+                    <div className="p-2">
+                      <div className="text-xs text-gray-500 uppercase tracking-wider px-2 mb-2">Folders</div>
+                      {folders.filter(f => !f.parent_id).map(folder => (
+                        <FolderNode
+                          key={folder.id}
+                          folder={folder}
+                          folders={folders}
+                          conversations={unpinnedConversations}
+                          collapsed={collapsedFolders}
+                          onToggle={toggleFolder}
+                          onDropConversation={moveConversation}
+                          onCreateSubfolder={createFolder}
+                          onRename={renameFolder}
+                          onDelete={deleteFolder}
+                          renderConversation={renderConversation}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  
+                  {/* Dropping a conversation here takes it out of its folder */}
+                  <DropZone onDrop={(id: string) => moveConversation(id, null)} className="p-2 min-h-16">
+                    <div className="text-xs text-gray-500 uppercase tracking-wider px-2 mb-2">Recent</div>
+                    {unfiledConversations.map(renderConversation)}
+                  </DropZone>
+                </>
               )}
             </div>
             
             <div className="p-4 border-t border-[#333333] space-y-2">
+              <button
+                onClick={() => router.push('/gallery')}
+                className="w-full text-left px-3 py-2 hover:bg-[#1a1a1a] transition-colors flex items-center justify-between"
+              >
+                <span>Image Gallery</span>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </button>
               <button
                 onClick={() => setShowSettings(!showSettings)}
                 className="w-full text-left px-3 py-2 hover:bg-[#1a1a1a] transition-colors flex items-center justify-between"
@@ -778,16 +1976,55 @@ export default function ChatPage() {
               
               <h1 className="text-xl font-bold">CORPREX AI</h1>
               
+              {compareMode ? (
+                <div className="flex items-center space-x-1" title={`Compare ${MIN_COMPARE_MODELS} to ${MAX_COMPARE_MODELS} models`}>
+                  {availableModels.map(model => (
+                    <button
+                      key={model.id}
+                      onClick={() => toggleCompareModel(model.id)}
+                      className={`px-2 py-1 text-xs border ${
+                        compareModels.includes(model.id)
+                          ? 'bg-white text-black border-white'
+                          : 'border-[#333333] text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {model.name}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <select
+                  value={selectedModel}
+                  onChange={(e) => {
+                    setSelectedModel(e.target.value);
+                    localStorage.setItem('selectedModel', e.target.value);
+                  }}
+                  className="bg-[#1a1a1a] border border-[#333333] px-3 py-1 text-sm focus:outline-none focus:border-white"
+                >
+                  {availableModels.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+              )}
+              
+              <button
+                onClick={() => setCompareMode(!compareMode)}
+                disabled={!!comparison}
+                className={`px-2 py-1 text-xs border ${compareMode ? 'bg-white text-black border-white' : 'border-[#333333] hover:bg-[#1a1a1a]'}`}
+                title="Send each prompt to several models side by side"
+              >
+                Compare
+              </button>
+              
               <select
-                value={selectedModel}
-                onChange={(e) => {
-                  setSelectedModel(e.target.value);
-                  localStorage.setItem('selectedModel', e.target.value);
-                }}
+                value={selectedPersonaId || ''}
+                onChange={(e) => selectPersona(e.target.value || null)}
                 className="bg-[#1a1a1a] border border-[#333333] px-3 py-1 text-sm focus:outline-none focus:border-white"
+                title="Persona for this conversation"
               >
-                {Object.entries(AI_MODELS).map(([key, model]) => (
-                  <option key={key} value={key}>{model.name}</option>
+                <option value="">No persona</option>
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
                 ))}
               </select>
               
@@ -803,7 +2040,7 @@ export default function ChatPage() {
               <button
                 onClick={() => setShowSearch(!showSearch)}
                 className="p-2 hover:bg-[#1a1a1a] transition-colors"
-                title="Search messages (Cmd/Ctrl + K)"
+                title="Search all conversations (Cmd/Ctrl + K)"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -832,20 +2069,6 @@ export default function ChatPage() {
             </div>
           </div>
           
-          {/* Search Bar */}
-          {showSearch && (
-            <div className="mt-4">
-              <input
-                type="text"
-                placeholder="Search messages..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#333333] text-white placeholder-gray-500 focus:outline-none focus:border-white"
-                autoFocus
-              />
-            </div>
-          )}
-          
           {/* Export Menu */}
           {showExportMenu && (
             <div className="absolute right-4 top-16 bg-[#1a1a1a] border border-[#333333] p-2 z-10">
@@ -873,7 +2096,7 @@ export default function ChatPage() {
         
         {/* Messages Area */}
         <div className="flex-1 overflow-y-auto p-4">
-          {searchedMessages.length === 0 ? (
+          {messages.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-gray-500">
               <h2 className="text-2xl font-bold mb-4">Welcome to CORPREX AI</h2>
               <p className="mb-8">Start a conversation or select from suggestions below</p>
@@ -892,10 +2115,14 @@ export default function ChatPage() {
             </div>
           ) : (
             <div className="max-w-4xl mx-auto">
-              {searchedMessages.map((message, index) => (
+              {messages.map((message, index) => (
                 <MessageBlock
-                  key={index}
+                  // Keyed by message so switching branches never hands one message's drafts or run output to another
+                  key={message.id || `pending-${index}`}
                   message={message}
+                  isFocused={!!message.id && message.id === focusedMessageId}
+                  codeExecutionEnabled={codeExecutionEnabled}
+                  branch={branchOf(message)}
                   onEdit={(content: string) => editMessage(index, content)}
                   onRegenerate={index === messages.length - 1 ? regenerateLastMessage : undefined}
                   onDelete={() => {
@@ -904,6 +2131,13 @@ export default function ChatPage() {
                   }}
                 />
               ))}
+              {comparison && (
+                <CompareColumns
+                  columns={comparison.columns}
+                  onPick={pickComparisonWinner}
+                  onDiscard={() => setComparison(null)}
+                />
+              )}
               {isTyping && (
                 <div className="mb-6">
                   <div className="flex items-center space-x-2 text-gray-500">
@@ -928,6 +2162,16 @@ export default function ChatPage() {
         
         {/* Input Area */}
         <div className="border-t border-[#333333] p-4">
+          {chatError && (
+            <ChatErrorBanner
+              error={chatError}
+              disabled={isLoading}
+              onRetry={() => retryLastRequest()}
+              onSwitchModel={(model: string) => retryLastRequest(model)}
+              onDismiss={() => setChatError(null)}
+            />
+          )}
+          
           {/* Attached file indicator */}
           {attachedFile && (
             <div className="max-w-4xl mx-auto mb-2 flex items-center justify-between bg-[#1a1a1a] border border-[#333333] p-2">
@@ -936,6 +2180,11 @@ export default function ChatPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
                 </svg>
                 <span className="text-sm text-gray-400">{attachedFile.name}</span>
+                {attachedFile.type.startsWith('image/') && !supportsVision(selectedModel) && (
+                  <span className="text-xs text-yellow-500">
+                    {getModelConfig(selectedModel).name} cannot view images; pick a vision model such as GPT-4o
+                  </span>
+                )}
               </div>
               <button
                 onClick={removeAttachment}
@@ -961,6 +2210,20 @@ export default function ChatPage() {
                 </svg>
               </button>
               
+              <button
+                type="button"
+                onClick={() => {
+                  setImagePrompt(input.trim());
+                  setShowImageGen(true);
+                }}
+                className="px-3 py-3 border border-[#333333] hover:bg-[#1a1a1a] transition-colors"
+                title="Generate image"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </button>
+              
               <textarea
                 ref={inputRef}
                 value={input}
@@ -1036,6 +2299,8 @@ export default function ChatPage() {
                 Listening... Speak now
               </div>
             )}
+            
+            <QuotaIndicator quota={quota} />
           </form>
         </div>
       </div>
@@ -1043,11 +2308,86 @@ export default function ChatPage() {
   );
 }
 
+// Ids of a message's entries under Sources; every reply numbers from 1, so they carry the message id
+const sourceAnchor = (message: { id?: string }, n: number | string) => `source-${message.id || 'pending'}-${n}`;
+
+// Turn inline [n] markers into links to the cited source; document excerpts link to their entry under Sources
+const linkCitations = (content: string, citations: Citation[] | undefined, message: { id?: string }) => {
+  if (!citations?.length) return content;
+  return content.replace(/\[(\d+)\](?!\()/g, (marker, n) => {
+    const citation = citations.find(c => c.index === Number(n));
+    if (!citation) return marker;
+    return `[[${n}]](${citation.document ? `#${sourceAnchor(message, n)}` : citation.url})`;
+  });
+};
+
+type CodeRun = { running: boolean; result?: SandboxResult; error?: string };
+
+// stdout, stderr, exit code and generated files of a sandboxed run, shown under its code block
+function CodeRunOutput({ run }: { run: CodeRun }) {
+  if (run.error) {
+    return <div className="p-2 text-xs bg-[#0a0a0a] border border-[#333333] text-red-400">{run.error}</div>;
+  }
+  const { stdout, stderr, exitCode, durationMs, files } = run.result!;
+  
+  return (
+    <div className="p-2 text-xs bg-[#0a0a0a] border border-[#333333] font-mono">
+      <div className="mb-1 text-gray-500">
+        exit {exitCode ?? 'killed'} • {durationMs}ms
+      </div>
+      {stdout && <pre className="whitespace-pre-wrap overflow-x-auto">{stdout}</pre>}
+      {stderr && <pre className="whitespace-pre-wrap overflow-x-auto text-red-400">{stderr}</pre>}
+      {files.length > 0 && (
+        <div className="mt-1 space-x-2">
+          {files.map(file => file.content ? (
+            <a
+              key={file.name}
+              href={`data:application/octet-stream;base64,${file.content}`}
+              download={file.name}
+              className="underline"
+            >
+              {file.name}
+            </a>
+          ) : (
+            <span key={file.name} className="text-gray-500">{file.name} ({file.size} bytes)</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Message Component
-function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
+function MessageBlock({ message, isFocused, codeExecutionEnabled, branch, onEdit, onRegenerate, onDelete }: any) {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [isHovered, setIsHovered] = useState(false);
+  // Sandbox output per code block, keyed by the block's source
+  const [codeRuns, setCodeRuns] = useState<Record<string, CodeRun>>({});
+  
+  const runnableBlocks = message.role === 'assistant' && codeExecutionEnabled
+    ? extractCodeFromMessage(message.content)
+      .filter(part => part.type === 'code' && toSandboxLanguage(part.language))
+      .map(part => part.content.replace(/\n$/, ''))
+    : [];
+  
+  const runCode = async (language: string, code: string) => {
+    setCodeRuns(prev => ({ ...prev, [code]: { running: true } }));
+    try {
+      const response = await fetch('/api/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language, code })
+      });
+      const data = await response.json();
+      setCodeRuns(prev => ({
+        ...prev,
+        [code]: response.ok ? { running: false, result: data } : { running: false, error: data.error?.message }
+      }));
+    } catch (error) {
+      setCodeRuns(prev => ({ ...prev, [code]: { running: false, error: 'Could not reach the server.' } }));
+    }
+  };
   
   const handleSaveEdit = () => {
     onEdit(editContent);
@@ -1056,9 +2396,12 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
   
   return (
     <motion.div
+      id={message.id ? `message-${message.id}` : undefined}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
-      className={`mb-6 group ${message.role === 'user' ? 'text-right' : 'text-left'}`}
+      className={`mb-6 group ${message.role === 'user' ? 'text-right' : 'text-left'} ${
+        isFocused ? 'outline outline-1 outline-white outline-offset-4' : ''
+      }`}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
@@ -1073,6 +2416,30 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
           {message.edited && (
             <span className="ml-2">• edited</span>
           )}
+          {message.cached && (
+            <span className="ml-2" title="Reused an identical earlier reply">• cached</span>
+          )}
+          {branch && (
+            <span className="ml-2 flex items-center space-x-1">
+              <button
+                onClick={branch.onPrev}
+                disabled={!branch.onPrev}
+                className="hover:text-white disabled:opacity-30"
+                aria-label="Previous version"
+              >
+                &lt;
+              </button>
+              <span>{branch.index + 1}/{branch.count}</span>
+              <button
+                onClick={branch.onNext}
+                disabled={!branch.onNext}
+                className="hover:text-white disabled:opacity-30"
+                aria-label="Next version"
+              >
+                &gt;
+              </button>
+            </span>
+          )}
         </div>
         
         <div className={`p-4 ${
@@ -1080,6 +2447,21 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
             ? 'bg-white text-black' 
             : 'bg-[#1a1a1a] border border-[#333333]'
         }`}>
+          {message.toolCalls?.length > 0 && (
+            <div className="mb-3 space-y-2 text-xs">
+              {message.toolCalls.map((call: ToolCallRecord) => (
+                <details key={call.id} className="bg-[#0a0a0a] border border-[#333333]">
+                  <summary className="px-2 py-1 cursor-pointer font-mono">
+                    {call.error ? '✗' : '✓'} {call.name}({JSON.stringify(call.arguments)})
+                  </summary>
+                  <pre className={`px-2 py-1 overflow-x-auto whitespace-pre-wrap ${call.error ? 'text-red-400' : 'text-gray-400'}`}>
+                    {call.error || JSON.stringify(call.result, null, 2)}
+                  </pre>
+                </details>
+              ))}
+            </div>
+          )}
+          
           {isEditing ? (
             <div>
               <textarea
@@ -1106,13 +2488,37 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
                 </button>
               </div>
             </div>
+          ) : message.type === 'image' ? (
+            <div>
+              {message.imageUrl ? (
+                <a href={message.imageUrl} target="_blank" rel="noopener noreferrer">
+                  <img src={message.imageUrl} alt={message.content} className="max-h-96 max-w-full border border-[#333333]" />
+                </a>
+              ) : (
+                <div className="text-xs text-gray-500">Image deleted</div>
+              )}
+              <div className="mt-2 text-xs text-gray-400">{message.content}</div>
+            </div>
           ) : (
             <ReactMarkdown
               remarkPlugins={[remarkGfm, remarkMath]}
               rehypePlugins={[rehypeKatex]}
               components={{
+                a({ href, children }: { href?: string; children?: React.ReactNode }) {
+                  // In-page links, such as citations of document excerpts, scroll instead of opening a tab
+                  if (href?.startsWith('#')) {
+                    return <a href={href} className="underline">{children}</a>;
+                  }
+                  return (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="underline">
+                      {children}
+                    </a>
+                  );
+                },
                 code({ node, inline, className, children, ...props }: any) {
                   const match = /language-(\w+)/.exec(className || '');
+                  const source = String(children).replace(/\n$/, '');
+                  const run = codeRuns[source];
                   return !inline && match ? (
                     <div className="relative">
                       <SyntaxHighlighter
@@ -1123,12 +2529,24 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
                       >
                         {String(children).replace(/\n$/, '')}
                       </SyntaxHighlighter>
-                      <button
-                        onClick={() => copyToClipboardWithToast(String(children))}
-                        className="absolute top-2 right-2 px-2 py-1 bg-[#2a2a2a] hover:bg-[#3a3a3a] text-xs"
-                      >
-                        Copy
-                      </button>
+                      <div className="absolute top-2 right-2 flex space-x-1">
+                        {runnableBlocks.includes(source) && (
+                          <button
+                            onClick={() => runCode(match[1], source)}
+                            disabled={run?.running}
+                            className="px-2 py-1 bg-[#2a2a2a] hover:bg-[#3a3a3a] text-xs disabled:opacity-50"
+                          >
+                            {run?.running ? 'Running…' : 'Run'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => copyToClipboardWithToast(String(children))}
+                          className="px-2 py-1 bg-[#2a2a2a] hover:bg-[#3a3a3a] text-xs"
+                        >
+                          Copy
+                        </button>
+                      </div>
+                      {run && !run.running && <CodeRunOutput run={run} />}
                     </div>
                   ) : (
                     <code className={className} {...props}>
@@ -1138,17 +2556,58 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
                 }
               }}
             >
-              {message.content}
+              {linkCitations(message.content, message.citations, message)}
             </ReactMarkdown>
           )}
           
-          {message.fileAttachment && (
+          {message.citations?.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-[#333333] text-xs">
+              <div className="text-gray-500 mb-1">Sources</div>
+              <ol className="space-y-1">
+                {message.citations.map((citation: Citation) => (
+                  <li key={citation.index} id={sourceAnchor(message, citation.index)}>
+                    {citation.document ? (
+                      <span title={citation.snippet}>
+                        [{citation.index}] {citation.document.name}
+                        <span className="text-gray-500"> · page {citation.document.page}</span>
+                      </span>
+                    ) : (
+                      <a
+                        href={citation.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline"
+                        title={citation.snippet}
+                      >
+                        [{citation.index}] {citation.title}
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          
+          {message.fileAttachment?.format === 'image' && (
+            <a href={`/api/attachments/${message.fileAttachment.id}`} target="_blank" rel="noopener noreferrer" className="block mt-2">
+              <img
+                src={`/api/attachments/${message.fileAttachment.id}`}
+                alt={message.fileAttachment.name}
+                className="max-h-64 max-w-full border border-[#333333]"
+              />
+            </a>
+          )}
+          
+          {message.fileAttachment && message.fileAttachment.format !== 'image' && (
             <div className="mt-2 p-2 bg-[#0a0a0a] border border-[#333333]">
               <div className="flex items-center space-x-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
                 </svg>
                 <span className="text-sm">{message.fileAttachment.name}</span>
+                <span className="text-xs text-gray-500">
+                  {message.fileAttachment.pageCount} {message.fileAttachment.format === 'pptx' ? 'slides' : message.fileAttachment.format === 'xlsx' ? 'sheets' : 'pages'}
+                </span>
               </div>
             </div>
           )}
@@ -1162,12 +2621,17 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
             >
               Copy
             </button>
-            <button
-              onClick={() => setIsEditing(true)}
-              className="text-xs text-gray-500 hover:text-white"
-            >
-              Edit
-            </button>
+            {message.type !== 'image' && (
+              <button
+                onClick={() => {
+                  setEditContent(message.content);
+                  setIsEditing(true);
+                }}
+                className="text-xs text-gray-500 hover:text-white"
+              >
+                Edit
+              </button>
+            )}
             {onRegenerate && (
               <button
                 onClick={onRegenerate}
@@ -1190,7 +2654,7 @@ function MessageBlock({ message, onEdit, onRegenerate, onDelete }: any) {
 }
 
 // Conversation Item Component
-function ConversationItem({ conversation, isActive, onSelect, onDelete, onPin, isPinned }: any) {
+function ConversationItem({ conversation, isActive, onSelect, onDelete, onPin, onTag, isPinned, selectable, isSelected }: any) {
   const [isHovered, setIsHovered] = useState(false);
   
   return (
@@ -1201,16 +2665,32 @@ function ConversationItem({ conversation, isActive, onSelect, onDelete, onPin, i
       onClick={onSelect}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, conversation.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
     >
       <div className="flex items-center justify-between">
+        {selectable && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            readOnly
+            className="mr-2 accent-white pointer-events-none"
+          />
+        )}
         <div className="flex-1 truncate">
           <div className="font-medium truncate">{conversation.title}</div>
-          <div className="text-xs text-gray-500">
+          <div className="text-xs text-gray-500 truncate">
             {formatRelativeTime(new Date(conversation.updated_at))}
+            {conversation.tags?.map((tag: string) => (
+              <span key={tag} className="ml-1 text-gray-400">#{tag}</span>
+            ))}
           </div>
         </div>
         
-        {isHovered && (
+        {isHovered && !selectable && (
           <div className="flex space-x-1">
             <button
               onClick={(e) => {
@@ -1218,11 +2698,24 @@ function ConversationItem({ conversation, isActive, onSelect, onDelete, onPin, i
                 onPin();
               }}
               className="p-1 hover:bg-[#2a2a2a] transition-colors"
+              title={isPinned ? 'Unpin' : 'Pin'}
             >
               <svg className="w-3 h-3" fill={isPinned ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
               </svg>
             </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onTag();
+              }}
+              className="p-1 hover:bg-[#2a2a2a] transition-colors"
+              title="Edit tags"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+            </button>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -1240,3 +2733,387 @@ function ConversationItem({ conversation, isActive, onSelect, onDelete, onPin, i
     </div>
   );
 }
+
+// Accepts a conversation dragged from the sidebar
+function DropZone({ onDrop, className = '', children }: { onDrop: (conversationId: string) => void; className?: string; children: React.ReactNode }) {
+  const [isOver, setIsOver] = useState(false);
+  
+  return (
+    <div
+      className={`${className} ${isOver ? 'bg-[#1a1a1a] outline outline-1 outline-white' : ''}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        const id = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE);
+        if (id) onDrop(id);
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+type FolderNodeProps = {
+  folder: Folder;
+  folders: Folder[];
+  conversations: Conversation[];
+  collapsed: string[];
+  onToggle: (folderId: string) => void;
+  onDropConversation: (conversationId: string, folderId: string) => void;
+  onCreateSubfolder: (parentId: string) => void;
+  onRename: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+  renderConversation: (conversation: Conversation) => React.ReactNode;
+};
+
+// A folder row with its subfolders and filed conversations underneath; the row is a drop target
+function FolderNode(props: FolderNodeProps) {
+  const { folder, folders, conversations, collapsed, onToggle, onDropConversation, onCreateSubfolder, onRename, onDelete, renderConversation } = props;
+  const [isHovered, setIsHovered] = useState(false);
+  const isCollapsed = collapsed.includes(folder.id);
+  const subfolders = folders.filter(f => f.parent_id === folder.id);
+  const filed = conversations.filter(c => c.folder_id === folder.id);
+  
+  return (
+    <div>
+      <DropZone onDrop={(id: string) => onDropConversation(id, folder.id)}>
+        <div
+          className="flex items-center justify-between px-2 py-1 cursor-pointer hover:bg-[#1a1a1a] text-sm"
+          onClick={() => onToggle(folder.id)}
+          onMouseEnter={() => setIsHovered(true)}
+          onMouseLeave={() => setIsHovered(false)}
+        >
+          <span className="truncate">
+            {isCollapsed ? '▸' : '▾'} {folder.name}
+            <span className="ml-1 text-xs text-gray-500">{filed.length}</span>
+          </span>
+          {isHovered && (
+            <div className="flex space-x-2 text-xs text-gray-500">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCreateSubfolder(folder.id);
+                }}
+                className="hover:text-white"
+                title="New subfolder"
+              >
+                +
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRename(folder);
+                }}
+                className="hover:text-white"
+              >
+                Rename
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(folder);
+                }}
+                className="hover:text-red-500"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+      </DropZone>
+      {!isCollapsed && (
+        <div className="pl-3">
+          {subfolders.map(subfolder => (
+            <FolderNode key={subfolder.id} {...props} folder={subfolder} />
+          ))}
+          {filed.map(renderConversation)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Persona Manager Component
+function PersonaManager({ personas, onCreate, onDelete }: {
+  personas: Persona[];
+  onCreate: (name: string, prompt: string) => Promise<void>;
+  onDelete: (id: string) => void;
+}) {
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  
+  const handleCreate = async () => {
+    if (!name.trim() || !prompt.trim()) return;
+    await onCreate(name.trim(), prompt.trim());
+    setName('');
+    setPrompt('');
+  };
+  
+  return (
+    <div>
+      <div className="mb-1">Personas</div>
+      {personas.map(persona => (
+        <div key={persona.id} className="flex items-center justify-between px-2 py-1 bg-[#0a0a0a] border border-[#333333] mb-1">
+          <span className="truncate" title={persona.prompt}>{persona.name}</span>
+          <button
+            onClick={() => onDelete(persona.id)}
+            className="text-xs text-gray-500 hover:text-red-500"
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Persona name"
+        className="w-full mt-1 px-2 py-1 bg-[#0a0a0a] border border-[#333333] focus:outline-none focus:border-white"
+      />
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="System prompt for this persona"
+        className="w-full mt-1 p-2 bg-[#0a0a0a] border border-[#333333] focus:outline-none focus:border-white resize-none"
+        rows={2}
+      />
+      <button
+        onClick={handleCreate}
+        disabled={!name.trim() || !prompt.trim()}
+        className="mt-1 px-3 py-1 bg-white text-black hover:bg-gray-200 text-sm disabled:opacity-50"
+      >
+        Save persona
+      </button>
+    </div>
+  );
+}
+
+// Documents retrieved from when "Answer from uploaded documents" is on: this conversation's plus the workspace's
+function KnowledgeBase({ conversationId }: { conversationId: string | null }) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [forConversation, setForConversation] = useState(true);
+  const inputRef = useRef<HTMLInputElement>(null);
+  
+  const loadDocuments = useCallback(async () => {
+    const query = conversationId ? `?conversation_id=${conversationId}` : '';
+    const response = await fetch(`/api/knowledge${query}`);
+    const data = await response.json();
+    if (!response.ok) {
+      toast.error(data.error?.message || 'Could not load documents');
+      return;
+    }
+    setDocuments(data.documents);
+  }, [conversationId]);
+  
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+  
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (forConversation && conversationId) formData.append('conversation_id', conversationId);
+      const response = await fetch('/api/knowledge', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error?.message || `Could not add ${file.name}`);
+        return;
+      }
+      data.warnings?.forEach((warning: string) => toast(`${file.name}: ${warning}`));
+      toast.success(`Added ${file.name}`);
+      await loadDocuments();
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+  
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/knowledge?id=${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      toast.error(data.error?.message || 'Could not delete document');
+      return;
+    }
+    setDocuments(prev => prev.filter(d => d.id !== id));
+  };
+  
+  return (
+    <div className="pl-4">
+      {documents.map(document => (
+        <div key={document.id} className="flex items-center justify-between px-2 py-1 bg-[#0a0a0a] border border-[#333333] mb-1">
+          <span className="truncate" title={`${document.pageCount} pages, ${document.chunkCount} chunks`}>
+            {document.name}
+            <span className="text-xs text-gray-500"> · {document.conversationId ? 'this chat' : 'workspace'}</span>
+          </span>
+          <button
+            onClick={() => remove(document.id)}
+            className="text-xs text-gray-500 hover:text-red-500"
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+      {documents.length === 0 && <div className="text-xs text-gray-500 mb-1">No documents yet</div>}
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept=".pdf,.docx,.pptx,.xlsx,.csv,.md,.txt"
+        onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+      />
+      <div className="flex items-center justify-between mt-1">
+        <label className="flex items-center space-x-1 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={forConversation && !!conversationId}
+            disabled={!conversationId}
+            onChange={(e) => setForConversation(e.target.checked)}
+          />
+          <span>Only this chat</span>
+        </label>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="px-3 py-1 bg-white text-black hover:bg-gray-200 text-sm disabled:opacity-50"
+        >
+          {uploading ? 'Adding...' : 'Add document'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Compare mode answers side by side; picking one makes it the conversation's next turn
+function CompareColumns({ columns, onPick, onDiscard }: {
+  columns: CompareColumn[];
+  onPick: (column: CompareColumn) => void;
+  onDiscard: () => void;
+}) {
+  const pending = columns.some(c => c.status === 'loading');
+  
+  return (
+    <div className="mb-6">
+      <div className={`grid gap-3 ${columns.length > 2 ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'}`}>
+        {columns.map(column => (
+          <div key={column.model} className="flex flex-col bg-[#1a1a1a] border border-[#333333] text-sm">
+            <div className="px-3 py-2 border-b border-[#333333]">
+              <div className="font-medium">{getModelConfig(column.model).name}</div>
+              {column.status === 'done' && (
+                <div className="text-xs text-gray-500">
+                  {column.latencyMs !== undefined && `${(column.latencyMs / 1000).toFixed(1)}s`}
+                  {column.tokens !== undefined && ` • ${column.tokens.toLocaleString()} tokens`}
+                  {column.cost !== undefined && ` • $${column.cost.toFixed(4)}`}
+                </div>
+              )}
+            </div>
+            <div className="flex-1 p-3 overflow-x-auto">
+              {column.status === 'loading' && <span className="text-gray-500">Waiting for answer…</span>}
+              {column.status === 'error' && <span className="text-red-400">{column.error?.message}</span>}
+              {column.status === 'done' && (
+                <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                  {column.content || ''}
+                </ReactMarkdown>
+              )}
+            </div>
+            {column.status === 'done' && (
+              <button
+                onClick={() => onPick(column)}
+                disabled={pending}
+                className="m-3 mt-0 px-3 py-1 bg-white text-black hover:bg-gray-200 text-xs disabled:opacity-50"
+              >
+                Pick this answer
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {!pending && (
+        <button onClick={onDiscard} className="mt-2 text-xs text-gray-500 hover:text-white">
+          Discard all answers
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Error Banner Component
+const MODEL_SWITCH_CODES: ApiErrorPayload['code'][] = ['provider_unavailable', 'rate_limited', 'context_too_long', 'configuration_error'];
+
+function ChatErrorBanner({ error, disabled, onRetry, onSwitchModel, onDismiss }: {
+  error: ApiErrorPayload & { model: string };
+  disabled: boolean;
+  onRetry: () => void;
+  onSwitchModel: (model: string) => void;
+  onDismiss: () => void;
+}) {
+  const resetAt = typeof error.details?.resetAt === 'string' ? new Date(error.details.resetAt) : null;
+  const alternatives = MODEL_SWITCH_CODES.includes(error.code)
+    ? getAvailableModels().filter(m => m.id !== error.model)
+    : [];
+  
+  return (
+    <div className="max-w-4xl mx-auto mb-2 bg-red-500/10 border border-red-500/50 p-3 text-sm">
+      <div className="flex items-start justify-between">
+        <span>
+          {error.message}
+          {resetAt && ` Resets ${resetAt.toLocaleString()}.`}
+        </span>
+        <button onClick={onDismiss} className="ml-4 text-gray-400 hover:text-white">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {error.retryable && (
+          <button
+            onClick={onRetry}
+            disabled={disabled}
+            className="px-3 py-1 bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+          >
+            Retry
+          </button>
+        )}
+        {alternatives.map(model => (
+          <button
+            key={model.id}
+            onClick={() => onSwitchModel(model.id)}
+            disabled={disabled}
+            className="px-3 py-1 border border-[#333333] hover:bg-[#1a1a1a] disabled:opacity-50"
+          >
+            Try {model.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Quota Indicator Component
+function QuotaIndicator({ quota }: { quota: QuotaUsage[] }) {
+  const userQuota = quota.filter(q => q.scope === 'user');
+  if (userQuota.length === 0) return null;
+  
+  const find = (metric: QuotaUsage['metric']) => userQuota.find(q => q.metric === metric);
+  const requests = find('requests');
+  const tokens = find('tokens');
+  const spend = find('spend');
+  
+  return (
+    <div className="mt-2 flex justify-end space-x-4 text-xs text-gray-500">
+      {requests && <span>{requests.remaining}/{requests.limit} requests this minute</span>}
+      {tokens && <span>{tokens.remaining.toLocaleString()} tokens left today</span>}
+      {spend && <span>${spend.remaining.toFixed(2)} of ${spend.limit.toFixed(2)} left this month</span>}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useUser } from "@clerk/nextjs";
+import { useRouter } from 'next/navigation';
+import { Toaster, toast } from 'react-hot-toast';
+import type { GeneratedImage } from '@/lib/images';
+import { IMAGE_SIZE_LABELS } from '@/lib/images/options';
+
+export default function GalleryPage() {
+  const { user, isLoaded } = useUser();
+  const router = useRouter();
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<GeneratedImage | null>(null);
+
+  useEffect(() => {
+    if (isLoaded && !user) {
+      router.push('/sign-in');
+    } else if (user) {
+      loadImages();
+    }
+  }, [user, isLoaded]);
+
+  const loadImages = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/images');
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error?.message || 'Could not load images');
+        return;
+      }
+      setImages(data.images);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteImage = async (id: string) => {
+    if (!confirm('Delete this image? It will also disappear from its conversation.')) return;
+    const response = await fetch(`/api/images/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      toast.error(data.error?.message || 'Could not delete image');
+      return;
+    }
+    setImages(prev => prev.filter(image => image.id !== id));
+    setSelected(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <Toaster position="top-center" />
+      {/* Header */}
+      <div className="bg-[#0a0a0a] border-b border-[#333333] p-6">
+        <div className="max-w-6xl mx-auto flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">CORPREX GALLERY</h1>
+            <p className="text-gray-500 mt-1">Your generated images</p>
+          </div>
+          <button
+            onClick={() => router.push('/chat')}
+            className="px-4 py-2 bg-white text-black hover:bg-gray-200 transition-colors"
+          >
+            BACK TO CHAT
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        {!loading && images.length === 0 && (
+          <div className="h-64 flex items-center justify-center text-gray-500">
+            No images yet. Generate one from the chat.
+          </div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {images.map(image => (
+            <button
+              key={image.id}
+              onClick={() => setSelected(image)}
+              className="bg-[#0a0a0a] border border-[#333333] hover:border-white transition-colors text-left"
+            >
+              <img src={image.url} alt={image.prompt} className="w-full aspect-square object-cover" loading="lazy" />
+              <div className="p-2 text-xs text-gray-400 truncate">{image.prompt}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-6"
+          onClick={() => setSelected(null)}
+        >
+          <div
+            className="bg-[#1a1a1a] border border-[#333] max-w-4xl w-full max-h-full overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <img src={selected.url} alt={selected.prompt} className="w-full" />
+            <div className="p-4 space-y-2 text-sm">
+              <div>
+                <div className="text-gray-500 text-xs uppercase tracking-wider">Prompt</div>
+                <div>{selected.prompt}</div>
+              </div>
+              {selected.revisedPrompt && (
+                <div>
+                  <div className="text-gray-500 text-xs uppercase tracking-wider">Revised prompt</div>
+                  <div className="text-gray-300">{selected.revisedPrompt}</div>
+                </div>
+              )}
+              <div className="text-gray-500 text-xs">
+                {selected.model} • {IMAGE_SIZE_LABELS[selected.size]} {selected.size} • {selected.quality} • {selected.style} • {new Date(selected.createdAt).toLocaleString()}
+              </div>
+              <div className="flex space-x-2 pt-2">
+                <a
+                  href={selected.url}
+                  download={`${selected.id}.png`}
+                  className="px-3 py-1 bg-white text-black hover:bg-gray-200"
+                >
+                  Download
+                </a>
+                <button
+                  onClick={() => deleteImage(selected.id)}
+                  className="px-3 py-1 border border-[#333333] hover:border-red-500 hover:text-red-500"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,61 +1,141 @@
-export const AI_MODELS = [
-  { 
-    id: 'gpt-3.5-turbo', 
-    name: 'GPT-3.5', 
+export type ProviderId = 'OpenAI' | 'Anthropic' | 'Google' | 'Groq' | 'Local';
+
+export interface AIModel {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  description: string;
+  icon: string;
+  // Maximum prompt + completion tokens the model accepts
+  contextWindow: number;
+  // Accepts images alongside text
+  vision?: boolean;
+}
+
+export const AI_MODELS: AIModel[] = [
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5',
     provider: 'OpenAI',
     description: 'Fast and efficient',
-    icon: ''
+    icon: '',
+    contextWindow: 16385
   },
-  { 
-    id: 'gpt-4', 
-    name: 'GPT-4', 
+  {
+    id: 'gpt-4',
+    name: 'GPT-4',
     provider: 'OpenAI',
     description: 'Advanced reasoning',
-    icon: ''
+    icon: '',
+    contextWindow: 8192
   },
-  { 
-    id: 'claude-3-5-sonnet-20241022', 
-    name: 'Claude 3.5 Sonnet', 
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'OpenAI',
+    description: 'Reads images',
+    icon: '',
+    contextWindow: 128000,
+    vision: true
+  },
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    name: 'Claude 3.5 Sonnet',
     provider: 'Anthropic',
     description: 'Advanced analysis',
-    icon: ''
+    icon: '',
+    contextWindow: 200000,
+    vision: true
   }
-  // Temporarily hidden from UI - uncomment to re-enable
-  // { 
-  //   id: 'gemini-1.5-flash', 
-  //   name: 'Gemini', 
-  //   provider: 'Google',
-  //   description: 'Multimodal AI',
-  //   icon: ''
-  // },
-  // { 
-  //   id: 'mixtral-8x7b', 
-  //   name: 'Mixtral', 
-  //   provider: 'Groq',
-  //   description: 'Open source',
-  //   icon: ''
-  // }
+  // Temporarily hidden from UI - move into AI_MODELS to re-enable
 ];
 
+// Hidden models still accessible by backend
+const HIDDEN_MODELS: AIModel[] = [
+  {
+    id: 'gemini-1.5-flash',
+    name: 'Gemini',
+    provider: 'Google',
+    description: 'Multimodal AI',
+    icon: '',
+    contextWindow: 1048576,
+    vision: true
+  },
+  {
+    id: 'mixtral-8x7b',
+    name: 'Mixtral',
+    provider: 'Groq',
+    description: 'Open source',
+    icon: '',
+    contextWindow: 32768
+  }
+];
+
+// Models found at runtime, e.g. on a self-hosted OpenAI-compatible endpoint
+const DISCOVERED_MODELS: AIModel[] = [];
+
+// Add or refresh discovered models; ids must not collide with the built-in ones
+export function registerModels(models: AIModel[]) {
+  for (const model of models) {
+    const index = DISCOVERED_MODELS.findIndex(m => m.id === model.id);
+    if (index >= 0) DISCOVERED_MODELS[index] = model;
+    else DISCOVERED_MODELS.push(model);
+  }
+}
+
+// Everything the model picker should offer
+export function getAvailableModels(): AIModel[] {
+  return [...AI_MODELS, ...DISCOVERED_MODELS];
+}
+
+// Models to try, in order, when the requested model times out, is rate limited or errors
+export const FALLBACK_CHAINS: Record<string, string[]> = {
+  'gpt-4': ['claude-3-5-sonnet-20241022', 'mixtral-8x7b'],
+  'gpt-3.5-turbo': ['claude-3-5-sonnet-20241022', 'mixtral-8x7b'],
+  'gpt-4o': ['claude-3-5-sonnet-20241022', 'gemini-1.5-flash'],
+  'claude-3-5-sonnet-20241022': ['gpt-4', 'mixtral-8x7b'],
+  'gemini-1.5-flash': ['gpt-3.5-turbo'],
+  'mixtral-8x7b': ['gpt-3.5-turbo'],
+};
+
+// USD per 1K tokens
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+  'claude-3-opus': { input: 0.015, output: 0.075 },
+  'claude-3-sonnet': { input: 0.003, output: 0.015 },
+  'claude-3-haiku': { input: 0.00025, output: 0.00125 },
+  'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
+  'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
+  'mixtral-8x7b': { input: 0.00024, output: 0.00024 },
+  'text-embedding-3-small': { input: 0.00002, output: 0 },
+  'text-embedding-3-large': { input: 0.00013, output: 0 },
+};
+
+// Calculate cost based on model and tokens
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const modelPricing = MODEL_PRICING[model] || { input: 0, output: 0 };
+  return (inputTokens * modelPricing.input + outputTokens * modelPricing.output) / 1000;
+}
+
+// Exact lookup by id, including hidden models
+export function findModelConfig(modelId: string): AIModel | undefined {
+  return [...AI_MODELS, ...HIDDEN_MODELS, ...DISCOVERED_MODELS].find(m => m.id === modelId);
+}
+
 export function getModelConfig(modelId: string) {
-  // Include hidden models in the lookup for backend compatibility
-  const allModels = [
-    ...AI_MODELS,
-    // Hidden models still accessible by backend
-    { 
-      id: 'gemini-1.5-flash', 
-      name: 'Gemini', 
-      provider: 'Google',
-      description: 'Multimodal AI',
-      icon: ''
-    },
-    { 
-      id: 'mixtral-8x7b', 
-      name: 'Mixtral', 
-      provider: 'Groq',
-      description: 'Open source',
-      icon: ''
-    }
-  ];
-  return allModels.find(m => m.id === modelId) || AI_MODELS[0];
+  return findModelConfig(modelId) || AI_MODELS[0];
+}
+
+// Any model in a failover chain may end up answering, so prompts are sized for the one with the smallest window
+export function smallestWindowModel(modelIds: string[]): AIModel {
+  return modelIds
+    .map(getModelConfig)
+    .reduce((smallest, config) => (config.contextWindow < smallest.contextWindow ? config : smallest));
+}
+
+export function supportsVision(modelId: string): boolean {
+  return !!findModelConfig(modelId)?.vision;
 }
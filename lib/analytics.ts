@@ -0,0 +1,51 @@
+import { supabase, type UsageRecord } from '@/lib/supabase';
+
+// Totals for the analytics dashboard, always for a single user
+
+export interface UsageStats {
+  totalChats: number;
+  totalMessages: number;
+  tokensUsed: number;
+  // USD
+  costEstimate: number;
+  // null until the user has had a reply from a provider
+  avgLatencyMs: number | null;
+  cacheHits: number;
+  cacheHitRate: number;
+  // Model ids, most used first
+  modelsUsed: string[];
+}
+
+export async function getUsageStats(userId: string): Promise<UsageStats> {
+  const [conversations, messages, usage] = await Promise.all([
+    supabase.from('conversations').select('*', { count: 'exact', head: true }).eq('user_id', userId),
+    supabase.from('messages').select('*', { count: 'exact', head: true }).eq('user_id', userId),
+    // Token counts and cost come from the provider-reported usage records
+    supabase.from('usage_records').select('*').eq('user_id', userId),
+  ]);
+  for (const { error } of [conversations, messages, usage]) {
+    if (error) throw error;
+  }
+
+  const records: UsageRecord[] = usage.data || [];
+  const succeeded = records.filter(r => r.status === 'success');
+  const chatCalls = succeeded.filter(r => r.kind === 'chat');
+  const cacheHits = records.filter(r => r.status === 'cached').length;
+  const chatReplies = chatCalls.length + cacheHits;
+
+  const callsByModel = succeeded.reduce<Record<string, number>>((acc, r) => {
+    acc[r.model] = (acc[r.model] || 0) + 1;
+    return acc;
+  }, {});
+
+  return {
+    totalChats: conversations.count || 0,
+    totalMessages: messages.count || 0,
+    tokensUsed: records.reduce((acc, r) => acc + r.input_tokens + r.output_tokens, 0),
+    costEstimate: records.reduce((acc, r) => acc + Number(r.cost), 0),
+    avgLatencyMs: chatCalls.length ? chatCalls.reduce((acc, r) => acc + r.latency_ms, 0) / chatCalls.length : null,
+    cacheHits,
+    cacheHitRate: chatReplies ? cacheHits / chatReplies : 0,
+    modelsUsed: Object.keys(callsByModel).sort((a, b) => callsByModel[b] - callsByModel[a]),
+  };
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { FailoverError, ProviderError } from '@/lib/providers/errors';
+
+// Error envelope shared by every API route
+
+export type ApiErrorCode =
+  | 'auth_missing'
+  | 'forbidden'
+  | 'provider_unavailable'
+  | 'rate_limited'
+  | 'context_too_long'
+  | 'invalid_input'
+  | 'unsupported_document'
+  // The server is missing or has a bad provider key; the user cannot fix this by signing in
+  | 'configuration_error'
+  | 'internal_error';
+
+export interface ApiErrorPayload {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  // Extra machine-readable context, e.g. the model that failed
+  details?: Record<string, unknown>;
+}
+
+export interface ApiErrorBody {
+  error: ApiErrorPayload;
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  auth_missing: 401,
+  forbidden: 403,
+  provider_unavailable: 503,
+  rate_limited: 429,
+  context_too_long: 413,
+  invalid_input: 400,
+  unsupported_document: 422,
+  configuration_error: 500,
+  internal_error: 500,
+};
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['provider_unavailable', 'rate_limited'];
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = STATUS_BY_CODE[code];
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+
+  toPayload(): ApiErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN = /context length|context window|too many tokens|maximum.*tokens|prompt is too long/i;
+
+const fromProviderError = (error: ProviderError): ApiError => {
+  const details = { provider: error.provider, providerStatus: error.status };
+
+  if (error.status === 401 || error.status === 403) {
+    return new ApiError('configuration_error', `${error.provider} rejected the server's API key.`, details);
+  }
+  if (error.status === 429) {
+    return new ApiError('rate_limited', `${error.provider} is rate limiting requests. Try again shortly.`, details);
+  }
+  if (CONTEXT_LENGTH_PATTERN.test(error.message)) {
+    return new ApiError('context_too_long', 'The conversation is too long for this model.', details);
+  }
+  if (error.status !== undefined && error.status >= 400 && error.status < 500 && error.status !== 408) {
+    return new ApiError('invalid_input', error.message, details);
+  }
+  return new ApiError('provider_unavailable', `${error.provider} is unavailable right now.`, details);
+};
+
+// Postgres data exceptions (class 22, e.g. 22P02 for a malformed uuid) and constraint violations (class 23)
+// come from values the client sent
+const isBadInputDatabaseError = (error: unknown): error is { code: string; message: string } => (
+  typeof error === 'object'
+  && error !== null
+  && typeof (error as { code?: unknown }).code === 'string'
+  && /^2[23][0-9A-Z]{3}$/.test((error as { code: string }).code)
+);
+
+// Normalise anything a route can throw into an ApiError
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof FailoverError) {
+    const providerError = error.lastProviderError;
+    const tried = error.attempts.map(a => a.model);
+    if (!providerError) {
+      return new ApiError('configuration_error', 'No API key is configured for this model or its fallbacks.', { tried });
+    }
+    const apiError = fromProviderError(providerError);
+    return new ApiError(apiError.code, apiError.message, { ...apiError.details, tried });
+  }
+
+  if (error instanceof ProviderError) return fromProviderError(error);
+
+  if (error instanceof SyntaxError) {
+    return new ApiError('invalid_input', 'Request body must be valid JSON.');
+  }
+
+  if (isBadInputDatabaseError(error)) {
+    return new ApiError('invalid_input', 'The request contains an invalid value.', { databaseCode: error.code });
+  }
+
+  // Not a provider failure, so retrying or switching models will not help
+  return new ApiError('internal_error', 'Something went wrong on our side while processing your request.');
+}
+
+export function errorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    console.error('API error:', error);
+  }
+  const resetAt = apiError.details?.resetAt;
+  const headers: HeadersInit = {};
+  if (apiError.code === 'rate_limited' && typeof resetAt === 'string') {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000)));
+  }
+  return NextResponse.json({ error: apiError.toPayload() }, { status: apiError.status, headers });
+}
@@ -0,0 +1,264 @@
+import { smallestWindowModel, supportsVision } from '@/lib/ai-models';
+import { ApiError } from '@/lib/api-errors';
+import type { AuthSubject } from '@/lib/auth';
+import { countTokens, truncateToFirstTokens } from '@/lib/context-window';
+import { canAccessConversation } from '@/lib/ownership';
+import { supabase } from '@/lib/supabase';
+import type { DocumentFormat, DocumentPage, ExtractedDocument } from '@/lib/documents';
+import type { ChatImage, ChatMessage } from '@/lib/providers';
+
+// Uploaded files are extracted once and stored; messages keep a reference and the text is inlined per request.
+// Images are stored as they are and sent as image parts to models that can see them.
+
+export type AttachmentFormat = DocumentFormat | 'image';
+
+// Shown with the message and saved in messages.attachments
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  format: AttachmentFormat;
+  size: number;
+  pageCount: number;
+  // Images only
+  mediaType?: string;
+}
+
+interface StoredAttachment extends AttachmentRef {
+  title?: string;
+  pages: DocumentPage[];
+  // Base64 bytes, images only
+  data?: string;
+}
+
+// Share of the model's context window all attachments of one message may use together
+const ATTACHMENT_CONTEXT_SHARE = 0.5;
+
+// The formats every vision provider accepts, each with its file signature
+const IMAGE_SIGNATURES: { mediaType: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { mediaType: 'image/png', matches: bytes => [0x89, 0x50, 0x4e, 0x47].every((byte, i) => bytes[i] === byte) },
+  { mediaType: 'image/jpeg', matches: bytes => [0xff, 0xd8, 0xff].every((byte, i) => bytes[i] === byte) },
+  { mediaType: 'image/gif', matches: bytes => [0x47, 0x49, 0x46, 0x38].every((byte, i) => bytes[i] === byte) },
+  {
+    mediaType: 'image/webp',
+    matches: bytes => Buffer.from(bytes.subarray(0, 4)).toString('latin1') === 'RIFF'
+      && Buffer.from(bytes.subarray(8, 12)).toString('latin1') === 'WEBP',
+  },
+];
+
+// Anthropic's per-image limit, the lowest of the providers
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const isImageUpload = (file: File) => file.type.startsWith('image/');
+
+export async function saveImageAttachment(userId: string, file: File): Promise<AttachmentRef> {
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new ApiError('invalid_input', `Images must be ${MAX_IMAGE_BYTES / 1024 / 1024} MB or smaller.`, { size: file.size });
+  }
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const mediaType = IMAGE_SIGNATURES.find(signature => signature.matches(bytes))?.mediaType;
+  if (!mediaType) {
+    throw new ApiError('unsupported_document', 'Unsupported image type. Attach a PNG, JPEG, GIF or WebP image.', {
+      reason: 'unsupported_type',
+      filename: file.name,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert([{
+      user_id: userId,
+      name: file.name,
+      format: 'image',
+      size: file.size,
+      media_type: mediaType,
+      data: bytes.toString('base64'),
+      metadata: { pageCount: 1 },
+      created_at: new Date().toISOString(),
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return { id: data.id, name: file.name, format: 'image', size: file.size, pageCount: 1, mediaType };
+}
+
+// Readable by the uploader and by anyone who can open a conversation the file was sent in,
+// so workspace members can continue a shared conversation with its attachments.
+// This relies on messages only ever referencing files the sender could read; see resolveAttachmentRefs.
+const canReadAttachment = async (subject: AuthSubject, uploaderId: string, id: string): Promise<boolean> => {
+  if (uploaderId === subject.userId) return true;
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('conversation_id')
+    .contains('attachments', JSON.stringify([{ id }]));
+
+  if (error) throw error;
+  const conversationIds = [...new Set((data || []).map(row => row.conversation_id as string))];
+  for (const conversationId of conversationIds) {
+    if (await canAccessConversation(subject, conversationId)) return true;
+  }
+  return false;
+};
+
+// The stored bytes of an attached image, for showing it again in the conversation
+export async function loadImage(subject: AuthSubject, id: string): Promise<{ mediaType: string; bytes: Buffer } | null> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('user_id, media_type, data')
+    .eq('id', id)
+    .eq('format', 'image')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !(await canReadAttachment(subject, data.user_id, id))) return null;
+  return { mediaType: data.media_type, bytes: Buffer.from(data.data, 'base64') };
+}
+
+export async function saveAttachment(userId: string, document: ExtractedDocument): Promise<AttachmentRef> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert([{
+      user_id: userId,
+      name: document.filename,
+      format: document.format,
+      size: document.size,
+      metadata: document.metadata,
+      pages: document.pages,
+      created_at: new Date().toISOString(),
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return {
+    id: data.id,
+    name: document.filename,
+    format: document.format,
+    size: document.size,
+    pageCount: document.metadata.pageCount,
+  };
+}
+
+// The refs a message may carry, rebuilt from the stored files so names and sizes cannot be spoofed.
+// A file the caller cannot already read is refused, or sending a message would grant access to it.
+export async function resolveAttachmentRefs(subject: AuthSubject, refs: unknown): Promise<AttachmentRef[]> {
+  if (!Array.isArray(refs) || refs.some(ref => typeof ref?.id !== 'string')) {
+    throw new ApiError('invalid_input', 'attachments must be an array of { id } objects.');
+  }
+  const ids: string[] = [...new Set(refs.map(ref => ref.id as string))];
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('id, user_id, name, format, size, metadata, media_type')
+    .in('id', ids);
+
+  if (error) throw error;
+  const readable = await Promise.all((data || []).map(row => canReadAttachment(subject, row.user_id, row.id)));
+  const found = (data || []).filter((_, i) => readable[i]);
+  const missing = ids.filter(id => !found.some(row => row.id === id));
+  if (missing.length > 0) {
+    throw new ApiError('invalid_input', 'An attached file could not be found. Attach it again.', { attachments: missing });
+  }
+
+  return ids.map(id => found.find(row => row.id === id)!).map(row => ({
+    id: row.id,
+    name: row.name,
+    format: row.format,
+    size: row.size,
+    pageCount: row.metadata?.pageCount || 1,
+    ...(row.media_type && { mediaType: row.media_type }),
+  }));
+}
+
+const loadAttachments = async (subject: AuthSubject, ids: string[]): Promise<StoredAttachment[]> => {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('id, user_id, name, format, size, metadata, pages, media_type, data')
+    .in('id', ids);
+
+  if (error) throw error;
+  // Files the caller may not read are reported as missing, like ids that do not exist
+  const readable = await Promise.all((data || []).map(row => canReadAttachment(subject, row.user_id, row.id)));
+  const found = (data || []).filter((_, i) => readable[i]);
+  const missing = ids.filter(id => !found.some(row => row.id === id));
+  if (missing.length > 0) {
+    throw new ApiError('invalid_input', 'An attached file could not be found. Attach it again.', { attachments: missing });
+  }
+
+  return found.map(row => ({
+    id: row.id,
+    name: row.name,
+    format: row.format,
+    size: row.size,
+    pageCount: row.metadata?.pageCount || row.pages.length,
+    title: row.metadata?.title,
+    pages: row.pages,
+    mediaType: row.media_type || undefined,
+    data: row.data || undefined,
+  }));
+};
+
+const PAGE_LABELS: Partial<Record<AttachmentFormat, string>> = { pdf: 'Page', pptx: 'Slide', xlsx: 'Sheet' };
+
+// Delimit each file so the model can tell attachment text from the user's own words
+const formatAttachment = (attachment: StoredAttachment, maxTokens: number) => {
+  const label = PAGE_LABELS[attachment.format];
+  const body = attachment.pages
+    .map(page => (label ? `[${label} ${page.number}${page.title ? `: ${page.title}` : ''}]\n${page.text}` : page.text))
+    .join('\n\n');
+  const truncated = truncateToFirstTokens(body, maxTokens);
+  const note = truncated.length < body.length ? '\n[Attachment truncated to fit the context window]' : '';
+
+  return `<attachment name="${attachment.name.replace(/"/g, "'")}" format="${attachment.format}" pages="${attachment.pageCount}">\n${truncated}${note}\n</attachment>`;
+};
+
+// Models without vision get a note in place of the image so the reply can say what it is missing
+const describeImage = (attachment: StoredAttachment) => (
+  `[Image "${attachment.name}" attached; this model cannot view images]`
+);
+
+// Replace attachment ids on user messages with the extracted text, budgeted against the smallest context window
+// in the failover chain, and with image parts when the requested model can see them. hiddenImages names the images a text-only model was not sent.
+export async function inlineAttachments(
+  messages: (ChatMessage & { attachments?: string[] })[],
+  subject: AuthSubject | null,
+  chain: string[]
+): Promise<{ messages: ChatMessage[]; hiddenImages: string[] }> {
+  const ids = messages.flatMap(m => m.attachments || []);
+  if (ids.length === 0) return { messages, hiddenImages: [] };
+  if (!subject) {
+    throw new ApiError('auth_missing', 'Sign in to send attachments.');
+  }
+
+  const stored = await loadAttachments(subject, Array.from(new Set(ids)));
+  const budget = Math.floor(smallestWindowModel(chain).contextWindow * ATTACHMENT_CONTEXT_SHARE);
+  const vision = supportsVision(chain[0]);
+  const hiddenImages: string[] = [];
+
+  const inlined = messages.map(({ attachments = [], ...message }) => {
+    if (attachments.length === 0) return message;
+    const found = attachments.map(id => stored.find(a => a.id === id)!);
+    const documents = found.filter(attachment => attachment.format !== 'image');
+    const images = found.filter(attachment => attachment.format === 'image');
+    if (!vision) hiddenImages.push(...images.map(image => image.name));
+
+    const perAttachment = Math.floor((budget - countTokens(message.content)) / Math.max(1, documents.length));
+    const files = [
+      ...documents.map(attachment => formatAttachment(attachment, Math.max(0, perAttachment))),
+      ...(vision ? [] : images.map(describeImage)),
+    ];
+    const imageParts: ChatImage[] = vision
+      ? images.map(image => ({ mediaType: image.mediaType!, data: image.data! }))
+      : [];
+
+    return {
+      ...message,
+      content: files.length ? `${files.join('\n\n')}\n\n${message.content}` : message.content,
+      ...(imageParts.length && { images: imageParts }),
+    };
+  });
+
+  return { messages: inlined, hiddenImages };
+}
@@ -0,0 +1,17 @@
+import { auth } from '@clerk/nextjs/server';
+import { ApiError } from '@/lib/api-errors';
+
+export interface AuthSubject {
+  userId: string;
+  orgId: string | null;
+}
+
+// The signed-in caller of an API route. The middleware already turns away signed-out API calls;
+// routes still check so none of them depends on the matcher being right.
+export async function requireUser(message = 'Sign in to continue.'): Promise<AuthSubject> {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    throw new ApiError('auth_missing', message);
+  }
+  return { userId, orgId: orgId || null };
+}
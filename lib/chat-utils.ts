@@ -69,20 +69,8 @@ export const estimateTokens = (text: string): number => {
   return Math.ceil(text.length / 4);
 };
 
-// Calculate cost based on model and tokens
-export const calculateCost = (model: string, inputTokens: number, outputTokens: number): number => {
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
-    'claude-3-opus': { input: 0.015, output: 0.075 },
-    'claude-3-sonnet': { input: 0.003, output: 0.015 },
-    'claude-3-haiku': { input: 0.00025, output: 0.00125 },
-  };
-
-  const modelPricing = pricing[model] || { input: 0, output: 0 };
-  return (inputTokens * modelPricing.input + outputTokens * modelPricing.output) / 1000;
-};
+// Pricing lives next to the model list so the server can meter usage too
+export { calculateCost } from '@/lib/ai-models';
 
 // Auto-save draft
 export const saveDraft = (conversationId: string, content: string) => {
@@ -97,14 +85,6 @@ export const loadDraft = (conversationId: string): string => {
   return localStorage.getItem(`draft-${conversationId || 'new'}`) || '';
 };
 
-// Search within messages
-export const searchMessages = (messages: any[], query: string) => {
-  const lowerQuery = query.toLowerCase();
-  return messages.filter(msg => 
-    msg.content.toLowerCase().includes(lowerQuery)
-  );
-};
-
 // Generate summary of conversation
 export const generateConversationSummary = (messages: any[]): string => {
   if (messages.length === 0) return 'Empty conversation';
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import { smallestWindowModel } from '@/lib/ai-models';
+import { ApiError } from '@/lib/api-errors';
+import { supabase } from '@/lib/supabase';
+import type { ChatMessage } from '@/lib/providers';
+
+// cl100k is exact for OpenAI chat models and a close stand-in for the other vendors
+const encoder = new Tiktoken(cl100k_base);
+
+// Per-message framing the providers add around role and content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Headroom for tokenizer differences between vendors
+const SAFETY_MARGIN = 0.05;
+// Space reserved for the rolling summary once a conversation overflows
+export const SUMMARY_MAX_TOKENS = 512;
+
+export const countTokens = (text: string): number => encoder.encode(text).length;
+
+// Keep the last `limit` tokens of a text
+export const truncateToTokens = (text: string, limit: number): string => {
+  const tokens = encoder.encode(text);
+  return tokens.length <= limit ? text : encoder.decode(tokens.slice(-limit));
+};
+
+// Keep the first `limit` tokens of a text
+export const truncateToFirstTokens = (text: string, limit: number): string => {
+  const tokens = encoder.encode(text);
+  return tokens.length <= limit ? text : encoder.decode(tokens.slice(0, limit));
+};
+
+export const countMessageTokens = (messages: ChatMessage[]): number => {
+  return messages.reduce((total, m) => total + countTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+};
+
+interface ConversationSummary {
+  summary: string;
+  // How many leading messages of the conversation the summary replaces
+  messageCount: number;
+  // Hash of those messages, so a summary made on one branch is never applied to another
+  digest: string;
+}
+
+const digestMessages = (messages: ChatMessage[]) => createHash('sha256')
+  .update(JSON.stringify(messages.map(m => [m.role, m.content])))
+  .digest('hex');
+
+const loadSummary = async (conversationId: string): Promise<ConversationSummary | null> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('summary, summary_message_count, summary_digest')
+    .eq('id', conversationId)
+    .single();
+
+  if (error || !data?.summary || !data.summary_digest) return null;
+  return { summary: data.summary, messageCount: data.summary_message_count || 0, digest: data.summary_digest };
+};
+
+const saveSummary = async (conversationId: string, { summary, messageCount, digest }: ConversationSummary) => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ summary, summary_message_count: messageCount, summary_digest: digest })
+    .eq('id', conversationId);
+
+  if (error) console.error('Error saving conversation summary:', error);
+};
+
+const withSummary = (system: string, summary?: string) => (
+  summary ? `${system}\n\nSummary of the earlier conversation:\n${summary}` : system
+);
+
+interface PrepareContextOptions {
+  // The requested model first, then its fallbacks; the prompt must fit every one of them
+  chain: string[];
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  conversationId?: string;
+  // Condenses older turns (and any previous summary) into a short summary
+  summarize: (previousSummary: string | undefined, turns: ChatMessage[]) => Promise<string>;
+}
+
+// Keep the system prompt and as many recent turns as fit; fold the rest into a rolling summary
+export async function prepareContext({
+  chain,
+  system,
+  messages,
+  maxTokens,
+  conversationId,
+  summarize,
+}: PrepareContextOptions): Promise<{ system: string; messages: ChatMessage[] }> {
+  const limiting = smallestWindowModel(chain);
+  const { contextWindow } = limiting;
+  const budget = Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxTokens;
+
+  const stored = conversationId ? await loadSummary(conversationId) : null;
+  // Ignore a summary that covers more than the client sent or other messages (another branch, an edit)
+  const summary = stored
+    && stored.messageCount < messages.length
+    && digestMessages(messages.slice(0, stored.messageCount)) === stored.digest
+    ? stored
+    : null;
+  const recent = summary ? messages.slice(summary.messageCount) : messages;
+
+  const promptTokens = (turns: ChatMessage[], summaryText?: string) =>
+    countTokens(withSummary(system, summaryText)) + countMessageTokens(turns);
+
+  if (promptTokens(recent, summary?.summary) <= budget) {
+    return { system: withSummary(system, summary?.summary), messages: recent };
+  }
+
+  // Drop the oldest turns until the rest fits next to a summary, always keeping the latest message
+  const turnBudget = budget - SUMMARY_MAX_TOKENS;
+  let keepFrom = 0;
+  while (keepFrom < recent.length - 1 && promptTokens(recent.slice(keepFrom)) > turnBudget) {
+    keepFrom++;
+  }
+  // Providers like Anthropic require the history to open with a user turn
+  while (keepFrom < recent.length - 1 && recent[keepFrom].role !== 'user') {
+    keepFrom++;
+  }
+  const kept = recent.slice(keepFrom);
+
+  if (promptTokens(kept) > turnBudget) {
+    const advice = limiting.id === chain[0]
+      ? 'Shorten it or pick a model with a larger context window.'
+      : `${limiting.name} is a fallback for this model; shorten the message or turn off fallback.`;
+    throw new ApiError(
+      'context_too_long',
+      `The latest message is too long for ${limiting.name}. ${advice}`,
+      { model: limiting.id, contextWindow }
+    );
+  }
+
+  const messageCount = (summary?.messageCount || 0) + keepFrom;
+  const updated: ConversationSummary = {
+    summary: await summarize(summary?.summary, recent.slice(0, keepFrom)),
+    messageCount,
+    digest: digestMessages(messages.slice(0, messageCount)),
+  };
+  if (conversationId) await saveSummary(conversationId, updated);
+
+  return { system: withSummary(system, updated.summary), messages: kept };
+}
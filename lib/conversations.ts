@@ -0,0 +1,417 @@
+import { ApiError } from '@/lib/api-errors';
+import { resolveAttachmentRefs } from '@/lib/attachments';
+import type { AuthSubject } from '@/lib/auth';
+import { assertFolderOwner } from '@/lib/folders';
+import { isImageReadable } from '@/lib/images';
+import { assertConversationAccess } from '@/lib/ownership';
+import type { Citation } from '@/lib/search';
+import { supabase, type Conversation, type Message } from '@/lib/supabase';
+import { assertPersonaOwner } from '@/lib/system-prompt';
+import type { ToolCallRecord } from '@/lib/tools';
+
+// Conversations and messages, read and written only on behalf of the signed-in user
+
+export interface ConversationInput {
+  title?: string;
+  model?: string;
+  persona_id?: string | null;
+  // Switch to another branch; must be a message of this conversation
+  active_leaf_id?: string;
+  // Sidebar organisation, kept per user; the folder must be one of the caller's own
+  folder_id?: string | null;
+  pinned?: boolean;
+  tags?: string[];
+}
+
+export type BulkAction = 'move' | 'tag' | 'untag' | 'delete';
+
+// body of a bulk request; folder_id is used by move, tags by tag and untag
+export interface BulkInput {
+  action: BulkAction;
+  folder_id?: string | null;
+  tags?: string[];
+}
+
+// Fields a client may set on a message; ids, owner and timestamps are filled in here
+export type MessageInput = Pick<Message, 'role' | 'content'>
+  & Partial<Pick<Message, 'parent_id' | 'type' | 'model' | 'citations' | 'tool_calls' | 'attachments' | 'image_id'>>;
+
+const MAX_TITLE_LENGTH = 200;
+const MESSAGE_ROLES = ['user', 'assistant'];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_BULK_CONVERSATIONS = 500;
+const BULK_ACTIONS: BulkAction[] = ['move', 'tag', 'untag', 'delete'];
+const MAX_CITATIONS = 50;
+const MAX_TOOL_CALLS = 20;
+// Longest tool result kept for display, as JSON
+const MAX_TOOL_RESULT_LENGTH = 20_000;
+type Placement = Pick<Conversation, 'folder_id' | 'pinned' | 'tags'>;
+
+// The caller's folder, pin and tags for each conversation; teammates sharing one each keep their own
+const loadPlacements = async (userId: string, conversationIds: string[]): Promise<Map<string, Placement>> => {
+  if (conversationIds.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('conversation_placements')
+    .select('conversation_id, folder_id, pinned, tags')
+    .eq('user_id', userId)
+    .in('conversation_id', conversationIds);
+
+  if (error) throw error;
+  return new Map((data || []).map(({ conversation_id, ...placement }) => [conversation_id as string, placement]));
+};
+
+const withPlacements = async (userId: string, conversations: Conversation[]): Promise<Conversation[]> => {
+  const placements = await loadPlacements(userId, conversations.map(c => c.id));
+  return conversations.map(c => ({ folder_id: null, pinned: false, tags: [], ...c, ...placements.get(c.id) }));
+};
+
+// Upserts only the fields given, so pinning leaves the folder and tags as they were
+const savePlacements = async (userId: string, conversationIds: string[], fields: Placement) => {
+  const { error } = await supabase
+    .from('conversation_placements')
+    .upsert(conversationIds.map(id => ({ ...fields, user_id: userId, conversation_id: id })), { onConflict: 'user_id,conversation_id' });
+  if (error) throw error;
+};
+
+// The user's own conversations plus those shared with their active workspace
+export async function listConversations({ userId, orgId }: AuthSubject): Promise<Conversation[]> {
+  const query = supabase.from('conversations').select('*');
+  const { data, error } = await (orgId
+    ? query.or(`user_id.eq.${userId},org_id.eq.${orgId}`)
+    : query.eq('user_id', userId)
+  ).order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return withPlacements(userId, data || []);
+}
+
+export async function getConversation(subject: AuthSubject, id: string): Promise<{ conversation: Conversation; messages: Message[] }> {
+  await assertConversationAccess(subject, id);
+
+  const [{ data: conversation, error: conversationError }, { data: messages, error: messagesError }] = await Promise.all([
+    supabase.from('conversations').select('*').eq('id', id).single(),
+    supabase.from('messages').select('*').eq('conversation_id', id).order('created_at', { ascending: true }),
+  ]);
+
+  if (conversationError) throw conversationError;
+  if (messagesError) throw messagesError;
+  const [placed] = await withPlacements(subject.userId, [conversation]);
+  return { conversation: placed, messages: messages || [] };
+}
+
+// Tags compare case-insensitively, so "Q3" and "q3" are one tag
+const normalizeTags = (tags: unknown): string[] => {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new ApiError('invalid_input', 'tags must be an array of strings.');
+  }
+  const normalized = [...new Set(tags.map(tag => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter(Boolean))];
+  if (normalized.length > MAX_TAGS) {
+    throw new ApiError('invalid_input', `A conversation can have at most ${MAX_TAGS} tags.`);
+  }
+  return normalized;
+};
+
+const validateFolderId = (folderId: unknown) => {
+  if (folderId !== undefined && folderId !== null && typeof folderId !== 'string') {
+    throw new ApiError('invalid_input', 'folder_id must be a string or null.');
+  }
+};
+
+const validateConversation = (input: ConversationInput) => {
+  if (input.title !== undefined && (typeof input.title !== 'string' || !input.title.trim())) {
+    throw new ApiError('invalid_input', 'title must be a non-empty string.');
+  }
+  if (input.model !== undefined && typeof input.model !== 'string') {
+    throw new ApiError('invalid_input', 'model must be a string.');
+  }
+  if (input.persona_id !== undefined && input.persona_id !== null && typeof input.persona_id !== 'string') {
+    throw new ApiError('invalid_input', 'persona_id must be a string or null.');
+  }
+  if (input.active_leaf_id !== undefined && typeof input.active_leaf_id !== 'string') {
+    throw new ApiError('invalid_input', 'active_leaf_id must be a string.');
+  }
+  validateFolderId(input.folder_id);
+  if (input.pinned !== undefined && typeof input.pinned !== 'boolean') {
+    throw new ApiError('invalid_input', 'pinned must be a boolean.');
+  }
+  // Shared fields go on the conversation; the placement is the caller's alone
+  return {
+    shared: {
+      ...(input.title !== undefined && { title: input.title.trim().slice(0, MAX_TITLE_LENGTH) }),
+      ...(input.model !== undefined && { model: input.model }),
+      ...(input.persona_id !== undefined && { persona_id: input.persona_id }),
+      ...(input.active_leaf_id !== undefined && { active_leaf_id: input.active_leaf_id }),
+    },
+    placement: {
+      ...(input.folder_id !== undefined && { folder_id: input.folder_id }),
+      ...(input.pinned !== undefined && { pinned: input.pinned }),
+      ...(input.tags !== undefined && { tags: normalizeTags(input.tags) }),
+    } as Placement,
+  };
+};
+
+// Parents and active leaves must come from the same conversation, or one tree could graft onto another
+const assertMessageInConversation = async (conversationId: string, messageId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('id', messageId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError('invalid_input', 'That message is not part of this conversation.', { message_id: messageId });
+  }
+};
+
+// New conversations are shared with the workspace the user is working in
+export async function createConversation({ userId, orgId }: AuthSubject, input: ConversationInput): Promise<Conversation> {
+  // A new conversation has no messages to point at yet
+  const { shared, placement } = validateConversation({ ...input, active_leaf_id: undefined });
+  if (placement.folder_id) await assertFolderOwner(userId, placement.folder_id);
+  if (shared.persona_id) await assertPersonaOwner(userId, shared.persona_id);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert([{
+      title: 'New conversation',
+      ...shared,
+      user_id: userId,
+      org_id: orgId,
+      created_at: now,
+      updated_at: now,
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (Object.keys(placement).length > 0) await savePlacements(userId, [data.id], placement);
+  const [placed] = await withPlacements(userId, [data]);
+  return placed;
+}
+
+// Workspace members share the creator's persona, so only the creator may pick one, and only from their own.
+// Anyone with access may still clear it.
+const assertPersonaSettable = async ({ userId }: AuthSubject, conversationId: string, personaId: string) => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('user_id')
+    .eq('id', conversationId)
+    .single();
+
+  if (error) throw error;
+  if (data.user_id !== userId) {
+    throw new ApiError('forbidden', 'Only the creator of a shared conversation can change its persona.', { conversation_id: conversationId });
+  }
+  await assertPersonaOwner(userId, personaId);
+};
+
+// Rename, switch persona, model or branch, or file it away; workspace members may update a shared conversation.
+// Filing it away is not activity, so only changes to the shared fields move updated_at.
+export async function updateConversation(subject: AuthSubject, id: string, input: ConversationInput): Promise<Conversation> {
+  const { shared, placement } = validateConversation(input);
+  await assertConversationAccess(subject, id);
+  if (shared.active_leaf_id) await assertMessageInConversation(id, shared.active_leaf_id);
+  if (placement.folder_id) await assertFolderOwner(subject.userId, placement.folder_id);
+  if (shared.persona_id) await assertPersonaSettable(subject, id, shared.persona_id);
+  if (Object.keys(placement).length > 0) await savePlacements(subject.userId, [id], placement);
+
+  const query = supabase.from('conversations');
+  const { data, error } = await (Object.keys(shared).length > 0
+    ? query.update({ ...shared, updated_at: new Date().toISOString() }).eq('id', id).select()
+    : query.select('*').eq('id', id)
+  ).single();
+
+  if (error) throw error;
+  const [placed] = await withPlacements(subject.userId, [data]);
+  return placed;
+}
+
+// Only the creator can delete, even when the conversation is shared
+export async function deleteConversation({ userId }: AuthSubject, id: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError('forbidden', 'Only the owner can delete this conversation.', { conversation_id: id });
+  }
+
+  const { error: messagesError } = await supabase.from('messages').delete().eq('conversation_id', id);
+  if (messagesError) throw messagesError;
+  const { error: deleteError } = await supabase.from('conversations').delete().eq('id', id);
+  if (deleteError) throw deleteError;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+const clip = (value: unknown, limit = 2_000) => (typeof value === 'string' ? value.slice(0, limit) : '');
+
+// Citations and tool calls come back from the client after a reply is shown, so they are stored for display only:
+// reduced to the known fields, and links other than http(s) are dropped so a shared conversation cannot carry script URLs
+const sanitizeCitations = (citations: unknown): Citation[] => {
+  if (!Array.isArray(citations)) {
+    throw new ApiError('invalid_input', 'citations must be an array.');
+  }
+  return citations.filter(isRecord).slice(0, MAX_CITATIONS).map((citation, i) => {
+    const url = clip(citation.url);
+    const document = isRecord(citation.document) ? citation.document : null;
+    return {
+      index: Number.isInteger(citation.index) ? citation.index as number : i + 1,
+      title: clip(citation.title, 500),
+      url: /^https?:\/\//i.test(url) ? url : '',
+      snippet: clip(citation.snippet),
+      ...(document && {
+        document: { id: clip(document.id, 100), name: clip(document.name, 500), page: Number(document.page) || 1 },
+      }),
+    };
+  });
+};
+
+const sanitizeToolCalls = (calls: unknown): ToolCallRecord[] => {
+  if (!Array.isArray(calls)) {
+    throw new ApiError('invalid_input', 'tool_calls must be an array.');
+  }
+  return calls.filter(isRecord).slice(0, MAX_TOOL_CALLS).map(call => {
+    const result = JSON.stringify(call.result ?? null);
+    return {
+      id: clip(call.id, 200),
+      name: clip(call.name, 200),
+      arguments: isRecord(call.arguments) ? call.arguments : {},
+      ...(call.result !== undefined && {
+        result: result.length <= MAX_TOOL_RESULT_LENGTH ? call.result : `${result.slice(0, MAX_TOOL_RESULT_LENGTH)}…`,
+      }),
+      ...(typeof call.error === 'string' && { error: clip(call.error) }),
+    };
+  });
+};
+
+export async function appendMessage(subject: AuthSubject, conversationId: string, input: MessageInput): Promise<Message> {
+  if (!MESSAGE_ROLES.includes(input.role)) {
+    throw new ApiError('invalid_input', `role must be one of ${MESSAGE_ROLES.join(', ')}.`);
+  }
+  if (typeof input.content !== 'string') {
+    throw new ApiError('invalid_input', 'content must be a string.');
+  }
+  if (input.role !== 'assistant' && (input.citations?.length || input.tool_calls?.length)) {
+    throw new ApiError('invalid_input', 'Only assistant messages can have citations or tool calls.');
+  }
+  await assertConversationAccess(subject, conversationId);
+  if (input.parent_id) await assertMessageInConversation(conversationId, input.parent_id);
+
+  // A message may only point at files and images the sender can already read; reading rights follow the
+  // conversations they appear in, so an unchecked reference would hand out someone else's file
+  const attachments = input.attachments ? await resolveAttachmentRefs(subject, input.attachments) : [];
+  if (input.image_id && (typeof input.image_id !== 'string' || !(await isImageReadable(subject, input.image_id)))) {
+    throw new ApiError('invalid_input', 'Image not found.', { image_id: input.image_id });
+  }
+  const citations = input.citations ? sanitizeCitations(input.citations) : [];
+  const toolCalls = input.tool_calls ? sanitizeToolCalls(input.tool_calls) : [];
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('messages')
+    .insert([{
+      conversation_id: conversationId,
+      parent_id: input.parent_id || null,
+      user_id: subject.userId,
+      role: input.role,
+      content: input.content,
+      type: input.type || 'text',
+      model: input.role === 'assistant' ? input.model || null : null,
+      citations: citations.length ? citations : null,
+      tool_calls: toolCalls.length ? toolCalls : null,
+      attachments: attachments.length ? attachments : null,
+      image_id: input.image_id || null,
+      created_at: now,
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // The new message is the tip of the branch being shown, and keeps the sidebar ordered by activity
+  const { error: touchError } = await supabase
+    .from('conversations')
+    .update({ active_leaf_id: data.id, updated_at: now })
+    .eq('id', conversationId);
+  if (touchError) console.error('Error updating conversation timestamp:', touchError);
+  return data;
+}
+
+// The conversations a bulk action targets; one that is missing or off limits refuses the whole batch
+const loadBatch = async ({ userId, orgId }: AuthSubject, ids: unknown) => {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    throw new ApiError('invalid_input', 'ids must be a non-empty array of conversation ids.');
+  }
+  if (ids.length > MAX_BULK_CONVERSATIONS) {
+    throw new ApiError('invalid_input', `At most ${MAX_BULK_CONVERSATIONS} conversations can be changed at once.`);
+  }
+
+  const unique: string[] = [...new Set(ids)];
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, user_id, org_id')
+    .in('id', unique);
+
+  if (error) throw error;
+  const rows: Pick<Conversation, 'id' | 'user_id' | 'org_id'>[] = data || [];
+  const denied = unique.filter(id => {
+    const row = rows.find(r => r.id === id);
+    return !row || !(row.user_id === userId || (!!row.org_id && row.org_id === orgId));
+  });
+  if (denied.length > 0) {
+    throw new ApiError('forbidden', 'You do not have access to some of these conversations.', { conversation_ids: denied });
+  }
+  return rows;
+};
+
+export async function bulkUpdateConversations(subject: AuthSubject, ids: unknown, input: BulkInput): Promise<string[]> {
+  if (!BULK_ACTIONS.includes(input.action)) {
+    throw new ApiError('invalid_input', `action must be one of ${BULK_ACTIONS.join(', ')}.`);
+  }
+  const rows = await loadBatch(subject, ids);
+  const batch = rows.map(row => row.id);
+
+  if (input.action === 'move') {
+    validateFolderId(input.folder_id);
+    if (input.folder_id) await assertFolderOwner(subject.userId, input.folder_id);
+    await savePlacements(subject.userId, batch, { folder_id: input.folder_id || null });
+  } else if (input.action === 'tag' || input.action === 'untag') {
+    const tags = normalizeTags(input.tags);
+    const placements = await loadPlacements(subject.userId, batch);
+    // Each conversation keeps its other tags, so the new set is worked out row by row
+    await Promise.all(batch.map(id => {
+      const current = placements.get(id)?.tags || [];
+      const next = input.action === 'tag'
+        ? normalizeTags([...current, ...tags])
+        : current.filter(tag => !tags.includes(tag));
+      return savePlacements(subject.userId, [id], { tags: next });
+    }));
+  } else {
+    // As with single deletes, shared conversations stay unless the caller created them
+    const notOwned = rows.filter(row => row.user_id !== subject.userId).map(row => row.id);
+    if (notOwned.length > 0) {
+      throw new ApiError('forbidden', 'Only the owner can delete these conversations.', { conversation_ids: notOwned });
+    }
+    const { error: messagesError } = await supabase.from('messages').delete().in('conversation_id', batch);
+    if (messagesError) throw messagesError;
+    const { error: deleteError } = await supabase.from('conversations').delete().in('id', batch);
+    if (deleteError) throw deleteError;
+  }
+  return batch;
+}
+
+// Every message of each conversation, all branches included
+export async function exportConversations(subject: AuthSubject, ids: unknown) {
+  const rows = await loadBatch(subject, ids);
+  return Promise.all(rows.map(row => getConversation(subject, row.id)));
+}
@@ -0,0 +1,124 @@
+import { ApiError } from '@/lib/api-errors';
+import { extractDocx, extractPptx, extractXlsx } from './office';
+import { extractPdf } from './pdf';
+import type { DocumentFormat, DocumentMetadata, DocumentPage, ExtractedDocument } from './types';
+
+export type * from './types';
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+// Past this the text is cut and a warning added; callers budget tokens further down
+const MAX_CHARACTERS = 1_000_000;
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  json: 'text',
+};
+
+const FORMATS_BY_MIME: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'text/markdown': 'markdown',
+  'text/plain': 'text',
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+// OLE compound file: legacy .doc/.xls/.ppt, and the wrapper Office uses for password-protected files
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+export function detectFormat(filename: string, mimeType: string, bytes: Uint8Array): DocumentFormat | null {
+  if (startsWith(bytes, PDF_SIGNATURE)) return 'pdf';
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  return FORMATS_BY_EXTENSION[extension] || FORMATS_BY_MIME[mimeType.split(';')[0]] || null;
+}
+
+const decodeText = (bytes: Uint8Array) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new ApiError('unsupported_document', 'This file is not valid UTF-8 text.', { reason: 'unsupported_type' });
+  }
+};
+
+const extractPlain = (format: DocumentFormat, text: string): { metadata: DocumentMetadata; pages: DocumentPage[] } => ({
+  metadata: {
+    title: format === 'markdown' ? text.match(/^#\s+(.+)$/m)?.[1].trim() : undefined,
+    pageCount: 1,
+  },
+  pages: [{ number: 1, text: text.trim() }],
+});
+
+// Split the character budget across pages in order so later pages are dropped first
+const truncatePages = (pages: DocumentPage[]) => {
+  let remaining = MAX_CHARACTERS;
+  return pages
+    .map(page => {
+      const text = page.text.slice(0, Math.max(0, remaining));
+      remaining -= text.length;
+      return { ...page, text };
+    })
+    .filter((page, i) => i === 0 || page.text);
+};
+
+export async function extractDocument(file: File): Promise<ExtractedDocument> {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new ApiError('invalid_input', `Files must be ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB or smaller.`, { size: file.size });
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const bytes = new Uint8Array(buffer);
+  const format = detectFormat(file.name, file.type, bytes);
+
+  if (!format) {
+    throw new ApiError(
+      'unsupported_document',
+      'Unsupported file type. Upload a PDF, Word, PowerPoint, Excel, CSV, Markdown or text file.',
+      { reason: 'unsupported_type', filename: file.name }
+    );
+  }
+  if ((format === 'docx' || format === 'pptx' || format === 'xlsx') && !startsWith(bytes, ZIP_SIGNATURE)) {
+    throw startsWith(bytes, CFB_SIGNATURE)
+      ? new ApiError('unsupported_document', 'This Office file is password protected or uses the legacy binary format. Remove the password or save it as .docx/.pptx/.xlsx.', { reason: 'encrypted' })
+      : new ApiError('unsupported_document', 'This file could not be opened. It may be damaged.', { reason: 'corrupt' });
+  }
+
+  const extracted = format === 'pdf' ? await extractPdf(bytes)
+    : format === 'docx' ? await extractDocx(buffer)
+    : format === 'pptx' ? await extractPptx(buffer)
+    : format === 'xlsx' ? await extractXlsx(buffer)
+    : { ...extractPlain(format, decodeText(bytes)), warnings: [] };
+
+  const characters = extracted.pages.reduce((total, page) => total + page.text.length, 0);
+  if (characters === 0) {
+    throw new ApiError('unsupported_document', 'No text could be found in this file.', { reason: 'empty' });
+  }
+
+  const truncated = characters > MAX_CHARACTERS;
+  const pages = truncated ? truncatePages(extracted.pages) : extracted.pages;
+
+  return {
+    filename: file.name,
+    format,
+    size: file.size,
+    metadata: extracted.metadata,
+    pages,
+    characters: Math.min(characters, MAX_CHARACTERS),
+    warnings: [
+      ...extracted.warnings,
+      ...(truncated ? [`Text was cut to the first ${MAX_CHARACTERS.toLocaleString()} characters`] : []),
+    ],
+  };
+}
@@ -0,0 +1,128 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { ApiError } from '@/lib/api-errors';
+import type { DocumentMetadata, DocumentPage } from './types';
+
+// DOCX, PPTX and XLSX are zip archives of XML parts
+
+interface OfficeExtraction {
+  metadata: DocumentMetadata;
+  pages: DocumentPage[];
+  warnings: string[];
+}
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+  .replace(/&amp;/g, '&');
+
+const xmlValue = (xml: string | undefined, tag: string) => {
+  const match = xml?.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`));
+  const value = match && decodeXml(match[1]).trim();
+  return value || undefined;
+};
+
+const openZip = async (buffer: Buffer) => {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ApiError('unsupported_document', 'This file could not be opened. It may be damaged.', { reason: 'corrupt' });
+  }
+};
+
+// Title and author live in docProps/core.xml for every Office format
+const coreProperties = async (zip: JSZip) => {
+  const core = await zip.file('docProps/core.xml')?.async('string');
+  return { title: xmlValue(core, 'dc:title'), author: xmlValue(core, 'dc:creator') };
+};
+
+export async function extractDocx(buffer: Buffer): Promise<OfficeExtraction> {
+  const zip = await openZip(buffer);
+  const { value } = await mammoth.extractRawText({ buffer });
+  const app = await zip.file('docProps/app.xml')?.async('string');
+  const reportedPages = Number(xmlValue(app, 'Pages'));
+
+  // Word only records page breaks at render time, so the body is one page of text
+  return {
+    metadata: {
+      ...(await coreProperties(zip)),
+      pageCount: Number.isFinite(reportedPages) && reportedPages > 0 ? reportedPages : 1,
+    },
+    pages: [{ number: 1, text: value.trim() }],
+    warnings: [],
+  };
+}
+
+const slideNumber = (path: string) => Number(path.match(/slide(\d+)\.xml$/)?.[1]);
+
+export async function extractPptx(buffer: Buffer): Promise<OfficeExtraction> {
+  const zip = await openZip(buffer);
+  const slidePaths = Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+  const pages = await Promise.all(slidePaths.map(async path => {
+    const xml = await zip.file(path)!.async('string');
+    // One line per paragraph, built from its text runs
+    const paragraphs = (xml.match(/<a:p>[\s\S]*?<\/a:p>/g) || [])
+      .map(paragraph => (paragraph.match(/<a:t>([\s\S]*?)<\/a:t>/g) || [])
+        .map(run => decodeXml(run.replace(/<\/?a:t>/g, '')))
+        .join(''))
+      .filter(line => line.trim());
+
+    return { number: slideNumber(path), title: paragraphs[0], text: paragraphs.join('\n') };
+  }));
+
+  return {
+    metadata: { ...(await coreProperties(zip)), pageCount: pages.length },
+    pages,
+    warnings: [],
+  };
+}
+
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('text' in value) return String(value.text);
+  if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+  if ('error' in value) return String(value.error);
+  return '';
+};
+
+// Quote like CSV so cells containing commas survive
+const csvCell = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export async function extractXlsx(buffer: Buffer): Promise<OfficeExtraction> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // ExcelJS wants an ArrayBuffer; copying gives one that holds exactly this file, not the pooled slab a Buffer may view
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+  } catch {
+    throw new ApiError('unsupported_document', 'This spreadsheet could not be opened. It may be damaged.', { reason: 'corrupt' });
+  }
+
+  const pages: DocumentPage[] = workbook.worksheets.map((sheet, i) => {
+    const rows: string[] = [];
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      rows.push(values.map(value => csvCell(cellText(value))).join(','));
+    });
+    return { number: i + 1, title: sheet.name, text: rows.join('\n') };
+  });
+
+  return {
+    metadata: {
+      title: workbook.title || undefined,
+      author: workbook.creator || undefined,
+      pageCount: pages.length,
+    },
+    pages,
+    warnings: pages.filter(p => !p.text).map(p => `Sheet "${p.title}" is empty`),
+  };
+}
@@ -0,0 +1,48 @@
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import { ApiError } from '@/lib/api-errors';
+import type { DocumentMetadata, DocumentPage } from './types';
+
+// Fewer characters than this on a page means it is most likely a scanned image
+const MIN_PAGE_CHARACTERS = 20;
+
+const openPdf = async (bytes: Uint8Array) => {
+  try {
+    return await getDocumentProxy(bytes);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new ApiError('unsupported_document', 'This PDF is password protected. Remove the password and upload it again.', { reason: 'encrypted' });
+    }
+    throw new ApiError('unsupported_document', 'This PDF could not be read. It may be damaged.', { reason: 'corrupt' });
+  }
+};
+
+export async function extractPdf(bytes: Uint8Array): Promise<{ metadata: DocumentMetadata; pages: DocumentPage[]; warnings: string[] }> {
+  const pdf = await openPdf(bytes);
+  const [{ totalPages, text }, { info }] = await Promise.all([
+    extractText(pdf, { mergePages: false }),
+    getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> })),
+  ]);
+
+  const pages = text.map((pageText, i) => ({ number: i + 1, text: pageText.trim() }));
+  const imageOnly = pages.filter(page => page.text.length < MIN_PAGE_CHARACTERS);
+
+  if (pages.length > 0 && imageOnly.length === pages.length) {
+    throw new ApiError(
+      'unsupported_document',
+      'This PDF has no text layer; it looks like a scanned document. Run it through OCR first.',
+      { reason: 'scanned', pageCount: totalPages }
+    );
+  }
+
+  return {
+    metadata: {
+      title: typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined,
+      author: typeof info.Author === 'string' && info.Author.trim() ? info.Author.trim() : undefined,
+      pageCount: totalPages,
+    },
+    pages,
+    warnings: imageOnly.length > 0
+      ? [`No text found on page${imageOnly.length > 1 ? 's' : ''} ${imageOnly.map(p => p.number).join(', ')} (scanned images?)`]
+      : [],
+  };
+}
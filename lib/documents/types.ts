@@ -0,0 +1,26 @@
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv' | 'markdown' | 'text';
+
+// A page, slide or sheet, numbered from 1
+export interface DocumentPage {
+  number: number;
+  // Sheet name or slide title where the format has one
+  title?: string;
+  text: string;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  pageCount: number;
+}
+
+export interface ExtractedDocument {
+  filename: string;
+  format: DocumentFormat;
+  size: number;
+  metadata: DocumentMetadata;
+  pages: DocumentPage[];
+  characters: number;
+  // Non-fatal problems, e.g. pages without a text layer or a truncated result
+  warnings: string[];
+}
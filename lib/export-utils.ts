@@ -35,4 +35,12 @@ export function downloadFile(content: string, filename: string) {
 
 export function copyToClipboard(text: string) {
   navigator.clipboard.writeText(text);
-}
\ No newline at end of file
+}
+
+// Several conversations at once, each with all of its messages
+export function exportConversationsToJSON(conversations: unknown[]) {
+  return JSON.stringify({
+    exported: new Date().toISOString(),
+    conversations
+  }, null, 2);
+}
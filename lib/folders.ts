@@ -0,0 +1,109 @@
+import { ApiError } from '@/lib/api-errors';
+import { supabase, type Folder } from '@/lib/supabase';
+
+// Folders are personal: each user arranges conversations, including shared ones, in their own tree
+
+export interface FolderInput {
+  name?: string;
+  parent_id?: string | null;
+}
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+export async function listFolders(userId: string): Promise<Folder[]> {
+  const { data, error } = await supabase
+    .from('folders')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function assertFolderOwner(userId: string, folderId: string) {
+  const { data, error } = await supabase
+    .from('folders')
+    .select('id')
+    .eq('id', folderId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError('invalid_input', 'Folder not found.', { folder_id: folderId });
+  }
+}
+
+const validateFolder = (input: FolderInput) => {
+  if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+    throw new ApiError('invalid_input', 'name must be a non-empty string.');
+  }
+  if (input.parent_id !== undefined && input.parent_id !== null && typeof input.parent_id !== 'string') {
+    throw new ApiError('invalid_input', 'parent_id must be a string or null.');
+  }
+  return {
+    ...(input.name !== undefined && { name: input.name.trim().slice(0, MAX_FOLDER_NAME_LENGTH) }),
+    ...(input.parent_id !== undefined && { parent_id: input.parent_id }),
+  };
+};
+
+export async function createFolder(userId: string, input: FolderInput): Promise<Folder> {
+  const fields = validateFolder(input);
+  if (!fields.name) {
+    throw new ApiError('invalid_input', 'A folder needs a name.');
+  }
+  if (fields.parent_id) await assertFolderOwner(userId, fields.parent_id);
+
+  const { data, error } = await supabase
+    .from('folders')
+    .insert([{ ...fields, user_id: userId }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Rename or move; a folder cannot be moved into itself or one of its own subfolders
+export async function updateFolder(userId: string, id: string, input: FolderInput): Promise<Folder> {
+  const fields = validateFolder(input);
+  await assertFolderOwner(userId, id);
+
+  if (fields.parent_id) {
+    const folders = await listFolders(userId);
+    const parentOf = new Map(folders.map(folder => [folder.id, folder.parent_id]));
+    if (!parentOf.has(fields.parent_id)) {
+      throw new ApiError('invalid_input', 'Folder not found.', { folder_id: fields.parent_id });
+    }
+    for (let ancestor: string | null | undefined = fields.parent_id; ancestor; ancestor = parentOf.get(ancestor)) {
+      if (ancestor === id) {
+        throw new ApiError('invalid_input', 'A folder cannot be moved inside itself.', { folder_id: id });
+      }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('folders')
+    .update(fields)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Subfolders go with it; their conversations fall back to the top level
+export async function deleteFolder(userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('folders')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
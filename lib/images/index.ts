@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { AuthSubject } from '@/lib/auth';
+import { canAccessConversation } from '@/lib/ownership';
+import { supabase } from '@/lib/supabase';
+import { LocalImageStorage } from './local-storage';
+import type { ImageQuality, ImageSize, ImageStyle } from './options';
+import { SupabaseImageStorage } from './supabase-storage';
+import type { GeneratedImage, ImageStorage } from './types';
+
+export type * from './types';
+export * from './options';
+
+const createStorage = (): ImageStorage => {
+  const backend = process.env.IMAGE_STORAGE || (process.env.NODE_ENV === 'production' ? 'supabase' : 'local');
+  return backend === 'supabase'
+    ? new SupabaseImageStorage()
+    : new LocalImageStorage(process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), '.data', 'images'));
+};
+
+let storage: ImageStorage = createStorage();
+
+// Swap the backend, e.g. a LocalImageStorage in a temp dir in tests
+export const setImageStorage = (next: ImageStorage) => {
+  storage = next;
+};
+
+interface ImageRow {
+  id: string;
+  user_id: string;
+  conversation_id: string | null;
+  prompt: string;
+  revised_prompt: string | null;
+  model: string;
+  size: ImageSize;
+  quality: ImageQuality;
+  style: ImageStyle;
+  storage_path: string;
+  content_type: string;
+  created_at: string;
+}
+
+const fromRow = (row: ImageRow): GeneratedImage => ({
+  id: row.id,
+  userId: row.user_id,
+  conversationId: row.conversation_id,
+  prompt: row.prompt,
+  revisedPrompt: row.revised_prompt,
+  model: row.model,
+  size: row.size,
+  quality: row.quality,
+  style: row.style,
+  contentType: row.content_type,
+  createdAt: row.created_at,
+  url: `/api/images/${row.id}`,
+});
+
+export interface NewImage {
+  userId: string;
+  conversationId: string | null;
+  prompt: string;
+  revisedPrompt: string | null;
+  model: string;
+  size: ImageSize;
+  quality: ImageQuality;
+  style: ImageStyle;
+  contentType: string;
+  bytes: Buffer;
+}
+
+// Store the bytes first so a row never points at a missing file
+export async function saveImage({ bytes, ...image }: NewImage): Promise<GeneratedImage> {
+  const id = randomUUID();
+  const storagePath = `${image.userId}/${id}.png`;
+  await storage.put(storagePath, bytes, image.contentType);
+
+  const { data, error } = await supabase
+    .from('generated_images')
+    .insert([{
+      id,
+      user_id: image.userId,
+      conversation_id: image.conversationId,
+      prompt: image.prompt,
+      revised_prompt: image.revisedPrompt,
+      model: image.model,
+      size: image.size,
+      quality: image.quality,
+      style: image.style,
+      storage_path: storagePath,
+      content_type: image.contentType,
+      created_at: new Date().toISOString(),
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    await storage.delete(storagePath).catch(() => {});
+    throw error;
+  }
+  return fromRow(data);
+}
+
+export async function listImages(userId: string): Promise<GeneratedImage[]> {
+  const { data, error } = await supabase
+    .from('generated_images')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(fromRow);
+}
+
+const findImage = async (id: string): Promise<ImageRow | null> => {
+  const { data, error } = await supabase
+    .from('generated_images')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Viewable by its creator and by anyone who can open the conversation it was generated in
+const canReadImage = async (subject: AuthSubject, row: ImageRow): Promise<boolean> => (
+  row.user_id === subject.userId
+  || (!!row.conversation_id && await canAccessConversation(subject, row.conversation_id))
+);
+
+// Whether a message may show this image; unknown ids and other people's images are refused alike
+export async function isImageReadable(subject: AuthSubject, id: string): Promise<boolean> {
+  const row = await findImage(id);
+  return !!row && canReadImage(subject, row);
+}
+
+export async function loadImageFile(subject: AuthSubject, id: string): Promise<{ contentType: string; bytes: Buffer } | null> {
+  const row = await findImage(id);
+  if (!row || !(await canReadImage(subject, row))) return null;
+  const bytes = await storage.get(row.storage_path);
+  return bytes && { contentType: row.content_type, bytes };
+}
+
+// Only the owner can delete; messages that showed the image keep their caption
+export async function deleteImage(userId: string, id: string): Promise<boolean> {
+  const row = await findImage(id);
+  if (!row || row.user_id !== userId) return false;
+
+  const { error } = await supabase.from('generated_images').delete().eq('id', id).eq('user_id', userId);
+  if (error) throw error;
+  await storage.delete(row.storage_path);
+  return true;
+}
@@ -0,0 +1,35 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ImageStorage } from './types';
+
+// Files under a local directory, for development without a Storage bucket
+export class LocalImageStorage implements ImageStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid image path: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, bytes: Buffer) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, bytes);
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+}
@@ -0,0 +1,15 @@
+// DALL·E 3 generation options; client-safe so the image modal can offer the same choices the API accepts
+
+export const IMAGE_SIZES = ['1024x1024', '1792x1024', '1024x1792'] as const;
+export const IMAGE_QUALITIES = ['standard', 'hd'] as const;
+export const IMAGE_STYLES = ['vivid', 'natural'] as const;
+
+export type ImageSize = typeof IMAGE_SIZES[number];
+export type ImageQuality = typeof IMAGE_QUALITIES[number];
+export type ImageStyle = typeof IMAGE_STYLES[number];
+
+export const IMAGE_SIZE_LABELS: Record<ImageSize, string> = {
+  '1024x1024': 'Square',
+  '1792x1024': 'Landscape',
+  '1024x1792': 'Portrait',
+};
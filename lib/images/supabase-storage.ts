@@ -0,0 +1,26 @@
+import { supabase } from '@/lib/supabase';
+import type { ImageStorage } from './types';
+
+const BUCKET = 'generated-images';
+
+// A private Supabase Storage bucket; images are only handed out through /api/images/[id]
+export class SupabaseImageStorage implements ImageStorage {
+  async put(path: string, bytes: Buffer, contentType: string) {
+    const { error } = await supabase.storage.from(BUCKET).upload(path, bytes, { contentType, upsert: false });
+    if (error) throw error;
+  }
+
+  async get(path: string) {
+    const { data, error } = await supabase.storage.from(BUCKET).download(path);
+    if (error) {
+      if ('status' in error && error.status === 404) return null;
+      throw error;
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(path: string) {
+    const { error } = await supabase.storage.from(BUCKET).remove([path]);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import type { ImageQuality, ImageSize, ImageStyle } from './options';
+
+export interface GeneratedImage {
+  id: string;
+  userId: string;
+  conversationId: string | null;
+  prompt: string;
+  // DALL·E 3 rewrites prompts before drawing; this is what it actually drew
+  revisedPrompt: string | null;
+  model: string;
+  size: ImageSize;
+  quality: ImageQuality;
+  style: ImageStyle;
+  contentType: string;
+  createdAt: string;
+  // Served by /api/images/[id]
+  url: string;
+}
+
+// Where the image bytes live; metadata is always in the generated_images table
+export interface ImageStorage {
+  put(path: string, bytes: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer | null>;
+  delete(path: string): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import { EMBEDDING_DIMENSIONS, type Embedder } from './types';
+
+// FNV-1a, so the same word always lands in the same dimension
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'in', 'is', 'it', 'its', 'much', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with',
+]);
+
+// Lowercased content words cut to six letters, a crude stem that joins "terminate" and "termination"
+const tokenize = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+  .filter(word => !STOP_WORDS.has(word))
+  .map(word => word.slice(0, 6));
+
+// Deterministic bag-of-words vectors (words and word pairs, feature-hashed) for offline dev, CI and air-gapped installs
+export class HashingEmbedder implements Embedder {
+  id = 'local-hashing-v1';
+
+  async embed(texts: string[]) {
+    const vectors = texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const words = tokenize(text);
+      const features: [string, number][] = [
+        ...words.map((word): [string, number] => [word, 1]),
+        // Pairs add some word order at half weight
+        ...words.slice(1).map((word, i): [string, number] => [`${words[i]} ${word}`, 0.5]),
+      ];
+
+      for (const [feature, weight] of features) {
+        const h = hash(feature);
+        // The sign bit keeps colliding features from always adding up
+        vector[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) ? -weight : weight;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    });
+    return { vectors };
+  }
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from '@/lib/api-errors';
+import type { ExtractedDocument } from '@/lib/documents';
+import { consumeQuota } from '@/lib/quota';
+import type { Citation } from '@/lib/search';
+import { recordUsage } from '@/lib/usage';
+import { HashingEmbedder } from './hashing-embedder';
+import { MemoryKnowledgeStore } from './memory-store';
+import { OpenAIEmbedder } from './openai-embedder';
+import { SupabaseKnowledgeStore } from './supabase-store';
+import type { Embedder, KnowledgeChunk, KnowledgeDocument, KnowledgeScope, KnowledgeStore } from './types';
+
+export type * from './types';
+export { HashingEmbedder } from './hashing-embedder';
+export { MemoryKnowledgeStore } from './memory-store';
+
+// About 400 tokens per chunk, overlapping so a sentence cut at a boundary is still whole in one of them
+const CHUNK_WORDS = 300;
+const CHUNK_OVERLAP_WORDS = 50;
+const MAX_RETRIEVED_CHUNKS = 5;
+// Below this cosine similarity a chunk is treated as unrelated
+const MIN_SCORE = Number(process.env.KNOWLEDGE_MIN_SCORE || 0.2);
+
+const createEmbedder = (): Embedder => {
+  const backend = process.env.EMBEDDINGS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+  return backend === 'openai' && process.env.OPENAI_API_KEY
+    ? new OpenAIEmbedder(process.env.OPENAI_API_KEY, process.env.EMBEDDINGS_MODEL)
+    : new HashingEmbedder();
+};
+
+const createStore = (): KnowledgeStore => {
+  const backend = process.env.KNOWLEDGE_STORE || (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+  return backend === 'supabase' ? new SupabaseKnowledgeStore() : new MemoryKnowledgeStore();
+};
+
+let embedder: Embedder = createEmbedder();
+let store: KnowledgeStore = createStore();
+
+// Swap the backends, e.g. HashingEmbedder and a fresh MemoryKnowledgeStore in tests
+export const setEmbedder = (next: Embedder) => {
+  embedder = next;
+};
+export const setKnowledgeStore = (next: KnowledgeStore) => {
+  store = next;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function knowledgeScope(userId: string, orgId?: string | null, conversationId?: string | null): KnowledgeScope {
+  if (conversationId && !UUID_PATTERN.test(conversationId)) {
+    throw new ApiError('invalid_input', 'conversation_id must be a UUID.');
+  }
+  return { userId, orgId: orgId || null, conversationId: conversationId || null };
+}
+
+export function chunkText(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  for (let start = 0; start < words.length; start += CHUNK_WORDS - CHUNK_OVERLAP_WORDS) {
+    chunks.push(words.slice(start, start + CHUNK_WORDS).join(' '));
+    if (start + CHUNK_WORDS >= words.length) break;
+  }
+  return chunks;
+}
+
+// Paid embedding calls are recorded and charged to the quota like any other provider call
+const embed = async (scope: KnowledgeScope, texts: string[]): Promise<number[][]> => {
+  const startedAt = Date.now();
+  const { vectors, usage } = await embedder.embed(texts);
+  if (usage) {
+    const consumed = await recordUsage({
+      user_id: scope.userId,
+      conversation_id: scope.conversationId || null,
+      kind: 'embedding',
+      model: usage.model,
+      usage: { inputTokens: usage.inputTokens, outputTokens: 0 },
+      latency_ms: Date.now() - startedAt,
+      status: 'success',
+    });
+    await consumeQuota(scope, consumed);
+  }
+  return vectors;
+};
+
+// Chunk per page so every chunk knows the page it came from, then embed and store
+export async function ingestDocument(scope: KnowledgeScope, document: ExtractedDocument): Promise<KnowledgeDocument> {
+  const pieces = document.pages.flatMap(page => chunkText(page.text).map(content => ({ page: page.number, content })));
+  const embeddings = await embed(scope, pieces.map(piece => piece.content));
+
+  const stored: KnowledgeDocument = {
+    id: randomUUID(),
+    userId: scope.userId,
+    orgId: scope.orgId || null,
+    conversationId: scope.conversationId || null,
+    name: document.filename,
+    format: document.format,
+    pageCount: document.metadata.pageCount,
+    chunkCount: pieces.length,
+    createdAt: new Date().toISOString(),
+  };
+  const chunks: KnowledgeChunk[] = pieces.map((piece, i) => ({
+    documentId: stored.id,
+    page: piece.page,
+    index: i,
+    content: piece.content,
+    embedding: embeddings[i],
+  }));
+
+  await store.addDocument(stored, chunks, embedder.id);
+  return stored;
+}
+
+export const listDocuments = (scope: KnowledgeScope) => store.listDocuments(scope);
+
+export const deleteDocument = (userId: string, id: string) => store.deleteDocument(userId, id);
+
+// Chunks most similar to the question, numbered as citations after any the caller already has
+export async function retrieveKnowledge(scope: KnowledgeScope, question: string, firstIndex = 1): Promise<Citation[]> {
+  const [embedding] = await embed(scope, [question]);
+  const chunks = await store.search(scope, embedding, embedder.id, MAX_RETRIEVED_CHUNKS);
+
+  return chunks
+    .filter(chunk => chunk.score >= MIN_SCORE)
+    .map((chunk, i) => ({
+      index: firstIndex + i,
+      title: `${chunk.documentName}, page ${chunk.page}`,
+      url: '',
+      snippet: chunk.content,
+      document: { id: chunk.documentId, name: chunk.documentName, page: chunk.page },
+    }));
+}
+
+export function formatKnowledgeContext(citations: Citation[]): string {
+  const excerpts = citations
+    .map(c => `[${c.index}] ${c.document!.name}, page ${c.document!.page}\n${c.snippet}`)
+    .join('\n\n');
+
+  return `Excerpts from the documents in this conversation's knowledge base:\n\n${excerpts}\n\nAnswer from these excerpts where they are relevant and cite them inline with their number in square brackets, e.g. [1], naming the document and page when you quote it. If the excerpts do not answer the question, say so.`;
+}
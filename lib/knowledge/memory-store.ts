@@ -0,0 +1,58 @@
+import type { KnowledgeChunk, KnowledgeDocument, KnowledgeScope, KnowledgeStore, RetrievedChunk } from './types';
+
+// Whether a document is visible from a conversation: its own documents plus the workspace's
+export const inScope = (document: KnowledgeDocument, { userId, orgId, conversationId }: KnowledgeScope) => {
+  if (document.conversationId) return document.conversationId === conversationId;
+  return orgId ? document.orgId === orgId : document.orgId === null && document.userId === userId;
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+};
+
+// Process-local documents and a brute-force index, for development and tests
+export class MemoryKnowledgeStore implements KnowledgeStore {
+  private documents = new Map<string, KnowledgeDocument>();
+  private chunks: (KnowledgeChunk & { embedderId: string })[] = [];
+
+  async addDocument(document: KnowledgeDocument, chunks: KnowledgeChunk[], embedderId: string) {
+    this.documents.set(document.id, document);
+    this.chunks.push(...chunks.map(chunk => ({ ...chunk, embedderId })));
+  }
+
+  async listDocuments(scope: KnowledgeScope) {
+    return Array.from(this.documents.values()).filter(document => inScope(document, scope));
+  }
+
+  async deleteDocument(userId: string, id: string) {
+    const document = this.documents.get(id);
+    if (!document || document.userId !== userId) return false;
+    this.documents.delete(id);
+    this.chunks = this.chunks.filter(chunk => chunk.documentId !== id);
+    return true;
+  }
+
+  async search(scope: KnowledgeScope, embedding: number[], embedderId: string, limit: number): Promise<RetrievedChunk[]> {
+    return this.chunks
+      .filter(chunk => chunk.embedderId === embedderId)
+      .map(chunk => ({ chunk, document: this.documents.get(chunk.documentId)! }))
+      .filter(({ document }) => document && inScope(document, scope))
+      .map(({ chunk, document }) => ({
+        documentId: document.id,
+        documentName: document.name,
+        page: chunk.page,
+        content: chunk.content,
+        score: cosine(embedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
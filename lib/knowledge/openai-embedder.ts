@@ -0,0 +1,29 @@
+import OpenAI from 'openai';
+import { EMBEDDING_DIMENSIONS, type Embedder } from './types';
+
+const BATCH_SIZE = 96;
+
+export class OpenAIEmbedder implements Embedder {
+  id: string;
+  private client: OpenAI;
+
+  constructor(apiKey: string, private model = 'text-embedding-3-small') {
+    this.client = new OpenAI({ apiKey });
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]) {
+    const vectors: number[][] = [];
+    let inputTokens = 0;
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + BATCH_SIZE),
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+      inputTokens += response.usage.prompt_tokens;
+    }
+    return { vectors, usage: { model: this.model, inputTokens } };
+  }
+}
@@ -0,0 +1,104 @@
+import { supabase } from '@/lib/supabase';
+import type { KnowledgeChunk, KnowledgeDocument, KnowledgeScope, KnowledgeStore, RetrievedChunk } from './types';
+
+interface DocumentRow {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+  conversation_id: string | null;
+  name: string;
+  format: KnowledgeDocument['format'];
+  page_count: number;
+  chunk_count: number;
+  created_at: string;
+}
+
+const fromRow = (row: DocumentRow): KnowledgeDocument => ({
+  id: row.id,
+  userId: row.user_id,
+  orgId: row.org_id,
+  conversationId: row.conversation_id,
+  name: row.name,
+  format: row.format,
+  pageCount: row.page_count,
+  chunkCount: row.chunk_count,
+  createdAt: row.created_at,
+});
+
+// Documents and chunks in Postgres; similarity search runs in pgvector via match_knowledge_chunks
+export class SupabaseKnowledgeStore implements KnowledgeStore {
+  async addDocument(document: KnowledgeDocument, chunks: KnowledgeChunk[], embedderId: string) {
+    const { error } = await supabase.from('knowledge_documents').insert([{
+      id: document.id,
+      user_id: document.userId,
+      org_id: document.orgId,
+      conversation_id: document.conversationId,
+      name: document.name,
+      format: document.format,
+      page_count: document.pageCount,
+      chunk_count: document.chunkCount,
+      created_at: document.createdAt,
+    }]);
+    if (error) throw error;
+
+    const { error: chunkError } = await supabase.from('knowledge_chunks').insert(chunks.map(chunk => ({
+      document_id: chunk.documentId,
+      page: chunk.page,
+      chunk_index: chunk.index,
+      content: chunk.content,
+      embedder: embedderId,
+      embedding: JSON.stringify(chunk.embedding),
+    })));
+    if (chunkError) {
+      // Don't leave a document behind that retrieval can never find
+      await supabase.from('knowledge_documents').delete().eq('id', document.id);
+      throw chunkError;
+    }
+  }
+
+  async listDocuments({ userId, orgId, conversationId }: KnowledgeScope) {
+    const workspace = orgId ? `org_id.eq.${orgId}` : `and(org_id.is.null,user_id.eq.${userId})`;
+    const { data, error } = await supabase
+      .from('knowledge_documents')
+      .select('*')
+      .or(conversationId
+        ? `conversation_id.eq.${conversationId},and(conversation_id.is.null,${workspace})`
+        : `and(conversation_id.is.null,${workspace})`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  async deleteDocument(userId: string, id: string) {
+    const { data, error } = await supabase
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async search({ userId, orgId, conversationId }: KnowledgeScope, embedding: number[], embedderId: string, limit: number) {
+    const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+      p_embedding: JSON.stringify(embedding),
+      p_embedder: embedderId,
+      p_user_id: userId,
+      p_org_id: orgId || null,
+      p_conversation_id: conversationId || null,
+      p_limit: limit,
+    });
+
+    if (error) throw error;
+    return (data || []).map((row: { document_id: string; document_name: string; page: number; content: string; score: number }): RetrievedChunk => ({
+      documentId: row.document_id,
+      documentName: row.document_name,
+      page: row.page,
+      content: row.content,
+      score: row.score,
+    }));
+  }
+}
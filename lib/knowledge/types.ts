@@ -0,0 +1,60 @@
+import type { DocumentFormat } from '@/lib/documents';
+
+// All embedders produce vectors of this size so one pgvector column and index serve them all
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface Embeddings {
+  vectors: number[][];
+  // What a paid provider billed for the call; absent for local embedders
+  usage?: { model: string; inputTokens: number };
+}
+
+export interface Embedder {
+  id: string;
+  embed(texts: string[]): Promise<Embeddings>;
+}
+
+// Who may see a document: a conversation, or the whole workspace (organization, else the user)
+export interface KnowledgeScope {
+  userId: string;
+  orgId?: string | null;
+  conversationId?: string | null;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  userId: string;
+  orgId: string | null;
+  // null for workspace-wide documents
+  conversationId: string | null;
+  name: string;
+  format: DocumentFormat;
+  pageCount: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+export interface KnowledgeChunk {
+  documentId: string;
+  page: number;
+  index: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface RetrievedChunk {
+  documentId: string;
+  documentName: string;
+  page: number;
+  content: string;
+  // Cosine similarity, 1 is identical
+  score: number;
+}
+
+export interface KnowledgeStore {
+  addDocument(document: KnowledgeDocument, chunks: KnowledgeChunk[], embedderId: string): Promise<void>;
+  listDocuments(scope: KnowledgeScope): Promise<KnowledgeDocument[]>;
+  // Only the uploader can delete
+  deleteDocument(userId: string, id: string): Promise<boolean>;
+  search(scope: KnowledgeScope, embedding: number[], embedderId: string, limit: number): Promise<RetrievedChunk[]>;
+}
@@ -0,0 +1,103 @@
+import { ApiError } from '@/lib/api-errors';
+import type { AuthSubject } from '@/lib/auth';
+import { supabase } from '@/lib/supabase';
+
+// Full-text search over every message the user can open, across all conversations
+
+export interface MessageSearchFilters {
+  role?: string | null;
+  model?: string | null;
+  // ISO timestamps, inclusive
+  from?: string | null;
+  to?: string | null;
+}
+
+// A snippet as plain text runs, so the client can highlight matches without rendering HTML
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchHit {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: string;
+  model: string | null;
+  createdAt: string;
+  rank: number;
+  snippet: SnippetPart[];
+}
+
+const MAX_QUERY_LENGTH = 200;
+const RESULT_LIMIT = 50;
+const SEARCHABLE_ROLES = ['user', 'assistant'];
+// search_messages wraps each match in these
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const toSnippetParts = (headline: string): SnippetPart[] =>
+  headline.split(MATCH_START).flatMap((chunk, index) => {
+    if (index === 0) return chunk ? [{ text: chunk, match: false }] : [];
+    const [matched, rest = ''] = chunk.split(MATCH_END);
+    return [{ text: matched, match: true }, ...(rest ? [{ text: rest, match: false }] : [])];
+  });
+
+const toTimestamp = (value: string | null | undefined, name: string) => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ApiError('invalid_input', `${name} must be a date.`, { [name]: value });
+  }
+  return new Date(time).toISOString();
+};
+
+// Best matches first; the query takes web-search syntax such as "exact phrase", -exclude and or
+export async function searchMessages(
+  { userId, orgId }: AuthSubject,
+  query: string,
+  filters: MessageSearchFilters = {}
+): Promise<MessageSearchHit[]> {
+  const q = query.trim();
+  if (!q) {
+    throw new ApiError('invalid_input', 'Enter something to search for.');
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    throw new ApiError('invalid_input', `Search queries are limited to ${MAX_QUERY_LENGTH} characters.`);
+  }
+  if (filters.role && !SEARCHABLE_ROLES.includes(filters.role)) {
+    throw new ApiError('invalid_input', `role must be one of ${SEARCHABLE_ROLES.join(', ')}.`);
+  }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    p_user_id: userId,
+    p_org_id: orgId || null,
+    p_query: q,
+    p_role: filters.role || null,
+    p_model: filters.model || null,
+    p_from: toTimestamp(filters.from, 'from'),
+    p_to: toTimestamp(filters.to, 'to'),
+    p_limit: RESULT_LIMIT,
+  });
+
+  if (error) throw error;
+  return (data || []).map((row: {
+    message_id: string;
+    conversation_id: string;
+    conversation_title: string;
+    message_role: string;
+    model: string | null;
+    created_at: string;
+    rank: number;
+    snippet: string;
+  }): MessageSearchHit => ({
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title,
+    role: row.message_role,
+    model: row.model,
+    createdAt: row.created_at,
+    rank: row.rank,
+    snippet: toSnippetParts(row.snippet),
+  }));
+}
@@ -0,0 +1,47 @@
+// Messages form a tree: editing or regenerating adds a sibling instead of overwriting.
+// The chat shows one root-to-leaf path at a time; these helpers walk it. Client-safe.
+
+export interface TreeNode {
+  id?: string;
+  parentId?: string | null;
+  timestamp: Date;
+}
+
+// Children in the order they were written, so "1/3" is always the original
+export const childrenOf = <T extends TreeNode>(tree: T[], parentId: string | null): T[] =>
+  tree
+    .filter(node => (node.parentId || null) === parentId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+export const siblingsOf = <T extends TreeNode>(tree: T[], node: T): T[] =>
+  node.id ? childrenOf(tree, node.parentId || null) : [node];
+
+// Follow the newest child down, so switching to a branch shows its latest continuation
+export const latestLeaf = <T extends TreeNode>(tree: T[], fromId: string): string => {
+  let leafId = fromId;
+  for (let children = childrenOf(tree, leafId); children.length > 0; children = childrenOf(tree, leafId)) {
+    leafId = children[children.length - 1].id!;
+  }
+  return leafId;
+};
+
+export const pathTo = <T extends TreeNode>(tree: T[], leafId: string): T[] => {
+  const byId = new Map(tree.filter(node => node.id).map(node => [node.id!, node]));
+  const path: T[] = [];
+  // The visited check stops a corrupted parent link from looping forever
+  for (let node = byId.get(leafId); node && !path.includes(node); node = node.parentId ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// The saved branch if it still exists, otherwise the most recently written message's
+export const activePath = <T extends TreeNode>(tree: T[], activeLeafId?: string | null): T[] => {
+  const saved = activeLeafId && tree.some(node => node.id === activeLeafId) ? activeLeafId : undefined;
+  const newest = tree.reduce<T | undefined>(
+    (latest, node) => (!latest || node.timestamp >= latest.timestamp ? node : latest),
+    undefined
+  );
+  const start = saved || newest?.id;
+  return start ? pathTo(tree, latestLeaf(tree, start)) : [];
+};
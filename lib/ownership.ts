@@ -0,0 +1,22 @@
+import { ApiError } from '@/lib/api-errors';
+import type { AuthSubject } from '@/lib/auth';
+import { supabase } from '@/lib/supabase';
+
+// A conversation is open to the user who created it and to members of the workspace it was created in
+export async function canAccessConversation({ userId, orgId }: AuthSubject, conversationId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('user_id, org_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data && (data.user_id === userId || (!!data.org_id && data.org_id === orgId));
+}
+
+export async function assertConversationAccess(subject: AuthSubject, conversationId: string) {
+  // Missing and someone else's look the same so ids cannot be probed
+  if (!(await canAccessConversation(subject, conversationId))) {
+    throw new ApiError('forbidden', 'You do not have access to this conversation.', { conversation_id: conversationId });
+  }
+}
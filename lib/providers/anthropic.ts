@@ -0,0 +1,106 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { ChatRequest, ProviderAdapter } from './types';
+
+const anthropic = process.env.ANTHROPIC_API_KEY ? new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+}) : null;
+
+type AnthropicMessage = Anthropic.MessageParam;
+type ImageMediaType = Anthropic.Base64ImageSource['media_type'];
+
+// Images become base64 image blocks ahead of the text; tool calls become tool_use blocks; consecutive tool results share one user turn of tool_result blocks
+const toAnthropicMessages = (messages: ChatRequest['messages']): AnthropicMessage[] => {
+  const mapped: AnthropicMessage[] = [];
+
+  for (const m of messages.filter(m => m.role !== 'system')) {
+    if (m.role === 'tool') {
+      const block = { type: 'tool_result' as const, tool_use_id: m.toolCallId || '', content: m.content };
+      const previous = mapped[mapped.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        mapped.push({ role: 'user', content: [block] });
+      }
+    } else if (m.role === 'assistant' && m.toolCalls?.length) {
+      mapped.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+          ...m.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else if (m.role === 'user' && m.images?.length) {
+      mapped.push({
+        role: 'user',
+        content: [
+          ...m.images.map(image => ({
+            type: 'image' as const,
+            source: { type: 'base64' as const, media_type: image.mediaType as ImageMediaType, data: image.data },
+          })),
+          { type: 'text' as const, text: m.content },
+        ],
+      });
+    } else {
+      mapped.push({ role: m.role === 'user' ? 'user' : 'assistant', content: m.content });
+    }
+  }
+  return mapped;
+};
+
+const toAnthropicParams = ({ model, system, messages, temperature, maxTokens, tools, userId }: ChatRequest) => ({
+  model,
+  max_tokens: maxTokens,
+  temperature,
+  ...(userId && { metadata: { user_id: userId } }),
+  messages: toAnthropicMessages(messages),
+  // Claude takes the system prompt as a top-level field, not a message
+  system: [system, ...messages.filter(m => m.role === 'system').map(m => m.content)]
+    .filter(Boolean)
+    .join('\n\n') || undefined,
+  ...(tools?.length && {
+    tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+  }),
+});
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'Anthropic',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+
+  isConfigured: () => !!anthropic,
+
+  async chat(request) {
+    const message = await anthropic!.messages.create(toAnthropicParams(request), { signal: request.signal });
+
+    const text = message.content.flatMap(block => (block.type === 'text' ? [block.text] : [])).join('');
+    const toolCalls = message.content.flatMap(block => (
+      block.type === 'tool_use'
+        ? [{ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }]
+        : []
+    ));
+
+    return {
+      content: text || (toolCalls.length ? '' : 'No response generated'),
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  },
+
+  async *stream(request) {
+    const events = await anthropic!.messages.create({ ...toAnthropicParams(request), stream: true }, { signal: request.signal });
+    let inputTokens = 0;
+
+    for await (const event of events) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { type: 'text', text: event.delta.text };
+      } else if (event.type === 'message_delta') {
+        yield { type: 'usage', usage: { inputTokens, outputTokens: event.usage.output_tokens } };
+      }
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import type { ProviderId } from '@/lib/ai-models';
+
+// A failed provider call, normalised across SDKs
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderId,
+    public readonly status?: number,
+    public readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Provider did not respond within ${ms}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+// Timeouts, connection failures, 429 and 5xx are worth retrying on another model
+export function toProviderError(error: unknown, provider: ProviderId): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const err = error as { message?: string; name?: string; status?: number };
+  const message = err?.message || 'Unknown provider error';
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+  const name = err?.name || '';
+  const retryable =
+    /timeout|connection/i.test(name) ||
+    status === 408 ||
+    status === 429 ||
+    (status !== undefined && status >= 500);
+
+  return new ProviderError(message, provider, status, retryable);
+}
+
+// Raised when no model in the chain could answer
+export class FailoverError extends Error {
+  constructor(public readonly attempts: { model: string; error: ProviderError | string }[]) {
+    const last = attempts[attempts.length - 1];
+    super(last
+      ? `${last.model}: ${typeof last.error === 'string' ? last.error : last.error.message}`
+      : 'No model available');
+    this.name = 'FailoverError';
+  }
+
+  // The most relevant provider error, if any model was actually called
+  get lastProviderError(): ProviderError | undefined {
+    return [...this.attempts].reverse().map(a => a.error).find((e): e is ProviderError => typeof e !== 'string');
+  }
+}
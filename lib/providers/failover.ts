@@ -0,0 +1,107 @@
+import { FALLBACK_CHAINS } from '@/lib/ai-models';
+import { resolveModel } from './index';
+import { FailoverError, ProviderTimeoutError, toProviderError } from './errors';
+import type { ChatRequest, ChatResult, ChatStreamChunk } from './types';
+
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.PROVIDER_TIMEOUT_MS || '60000', 10);
+
+// MODEL_FALLBACKS='{"gpt-4":["claude-3-5-sonnet-20241022","mixtral-8x7b"]}' overrides the defaults
+const loadFallbackChains = (): Record<string, string[]> => {
+  if (!process.env.MODEL_FALLBACKS) return FALLBACK_CHAINS;
+  try {
+    return { ...FALLBACK_CHAINS, ...JSON.parse(process.env.MODEL_FALLBACKS) };
+  } catch (error) {
+    console.error('Invalid MODEL_FALLBACKS, using defaults:', error);
+    return FALLBACK_CHAINS;
+  }
+};
+
+const fallbackChains = loadFallbackChains();
+
+export function getFallbackChain(modelId: string): string[] {
+  const chain = [modelId, ...(fallbackChains[modelId] || [])];
+  return chain.filter((id, index) => chain.indexOf(id) === index);
+}
+
+// Hands the call a signal that is aborted on timeout, so the abandoned request stops instead of
+// running on (and being billed) while the next model in the chain answers
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    run(controller.signal),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ProviderTimeoutError(ms);
+        controller.abort(error);
+        reject(error);
+      }, ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+// Walk the chain, moving to the next model on retryable errors only
+async function runChain<T>(
+  chain: string[],
+  request: Omit<ChatRequest, 'model'>,
+  attempt: (request: ChatRequest, resolved: NonNullable<ReturnType<typeof resolveModel>>) => Promise<T>,
+): Promise<{ model: string; value: T }> {
+  const attempts: FailoverError['attempts'] = [];
+
+  for (const modelId of chain) {
+    const resolved = resolveModel(modelId);
+    if (!resolved) {
+      attempts.push({ model: modelId, error: 'Unknown model' });
+      continue;
+    }
+    if (!resolved.adapter.isConfigured()) {
+      attempts.push({ model: modelId, error: `${resolved.adapter.apiKeyEnv} is not set` });
+      continue;
+    }
+
+    try {
+      const value = await attempt({ ...request, model: resolved.config.id }, resolved);
+      return { model: resolved.config.id, value };
+    } catch (error) {
+      const providerError = toProviderError(error, resolved.adapter.id);
+      console.error(`${resolved.adapter.id} API error (${modelId}):`, providerError);
+      attempts.push({ model: modelId, error: providerError });
+      if (!providerError.retryable) break;
+    }
+  }
+
+  throw new FailoverError(attempts);
+}
+
+export async function chatWithFailover(chain: string[], request: Omit<ChatRequest, 'model'>) {
+  const { model, value } = await runChain<ChatResult>(chain, request, (req, { adapter }) =>
+    withTimeout(signal => adapter.chat({ ...req, signal }), PROVIDER_TIMEOUT_MS)
+  );
+  return { model, result: value };
+}
+
+// Failover is only possible until the first chunk arrives; after that the stream is committed
+export async function streamWithFailover(chain: string[], request: Omit<ChatRequest, 'model'>) {
+  const { model, value } = await runChain(chain, request, async (req, { adapter }) => {
+    // The deadline covers the first chunk only; a stream that has started may run as long as it needs
+    let iterator!: AsyncIterator<ChatStreamChunk>;
+    const first = await withTimeout(signal => {
+      iterator = adapter.stream({ ...req, signal })[Symbol.asyncIterator]();
+      return iterator.next();
+    }, PROVIDER_TIMEOUT_MS);
+
+    return (async function* (): AsyncGenerator<ChatStreamChunk> {
+      try {
+        for (let next = first; !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+      } catch (error) {
+        throw toProviderError(error, adapter.id);
+      } finally {
+        // Stopped early, e.g. the client disconnected: closing the SDK stream aborts its HTTP request
+        await iterator.return?.();
+      }
+    })();
+  });
+  return { model, chunks: value };
+}
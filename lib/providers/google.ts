@@ -0,0 +1,112 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclarationSchema,
+  type UsageMetadata,
+} from '@google/generative-ai';
+import type { ChatMessage, ChatRequest, ChatUsage, ProviderAdapter } from './types';
+
+const googleAI = process.env.GOOGLE_AI_API_KEY
+  ? new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY)
+  : null;
+
+const toUsage = (metadata?: UsageMetadata): ChatUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount,
+  outputTokens: metadata.candidatesTokenCount,
+};
+
+// Images are inlineData parts; tool calls are functionCall parts; tool results go back as functionResponse parts
+const toContent = (m: ChatMessage): Content => {
+  if (m.role === 'tool') {
+    return {
+      role: 'function',
+      parts: [{ functionResponse: { name: m.name || '', response: { content: m.content } } }],
+    };
+  }
+  if (m.role === 'assistant') {
+    return {
+      role: 'model',
+      parts: [
+        ...(m.content ? [{ text: m.content }] : []),
+        ...(m.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+      ],
+    };
+  }
+  return {
+    role: 'user',
+    parts: [
+      ...(m.images || []).map(image => ({ inlineData: { mimeType: image.mediaType, data: image.data } })),
+      { text: m.content },
+    ],
+  };
+};
+
+// Gemini keeps earlier turns in startChat history and takes the latest turn separately
+const startChat = ({ model, system, messages, temperature, maxTokens, tools }: ChatRequest) => {
+  const systemInstruction = [system, ...messages.filter(m => m.role === 'system').map(m => m.content)]
+    .filter(Boolean)
+    .join('\n\n');
+  // Consecutive tool results belong to a single function turn
+  const contents = messages.filter(m => m.role !== 'system').map(toContent).reduce<Content[]>((merged, content) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.role === 'function' && content.role === 'function') {
+      previous.parts.push(...content.parts);
+    } else {
+      merged.push(content);
+    }
+    return merged;
+  }, []);
+
+  const genModel = googleAI!.getGenerativeModel({
+    model,
+    systemInstruction: systemInstruction || undefined,
+    generationConfig: { temperature, maxOutputTokens: maxTokens },
+    ...(tools?.length && {
+      tools: [{ functionDeclarations: tools.map(tool => ({ ...tool, parameters: tool.parameters as FunctionDeclarationSchema })) }],
+    }),
+  });
+
+  return {
+    chat: genModel.startChat({ history: contents.slice(0, -1) }),
+    prompt: contents[contents.length - 1]?.parts || '',
+  };
+};
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'Google',
+  apiKeyEnv: 'GOOGLE_AI_API_KEY',
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+
+  isConfigured: () => !!googleAI,
+
+  async chat(request) {
+    const { chat, prompt } = startChat(request);
+    const result = await chat.sendMessage(prompt, { signal: request.signal });
+    const response = result.response;
+
+    // Gemini does not id its function calls, so number them per response
+    const toolCalls = response.functionCalls()?.map((call, i) => ({
+      id: `${call.name}-${Date.now()}-${i}`,
+      name: call.name,
+      arguments: (call.args || {}) as Record<string, unknown>,
+    }));
+
+    return {
+      content: response.text() || (toolCalls?.length ? '' : 'No response generated'),
+      toolCalls: toolCalls?.length ? toolCalls : undefined,
+      usage: toUsage(response.usageMetadata),
+    };
+  },
+
+  async *stream(request) {
+    const { chat, prompt } = startChat(request);
+    const result = await chat.sendMessageStream(prompt, { signal: request.signal });
+
+    for await (const chunk of result.stream) {
+      yield { type: 'text', text: chunk.text() };
+    }
+
+    const usage = toUsage((await result.response).usageMetadata);
+    if (usage) yield { type: 'usage', usage };
+  },
+};
@@ -0,0 +1,63 @@
+import Groq from 'groq-sdk';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format';
+import type { ProviderAdapter } from './types';
+
+const groq = process.env.GROQ_API_KEY ? new Groq({
+  apiKey: process.env.GROQ_API_KEY,
+}) : null;
+
+export const groqAdapter: ProviderAdapter = {
+  id: 'Groq',
+  apiKeyEnv: 'GROQ_API_KEY',
+  capabilities: { streaming: true, systemPrompt: true, vision: false, tools: true },
+
+  isConfigured: () => !!groq,
+
+  async chat(request) {
+    const { model, temperature, maxTokens } = request;
+    const completion = await groq!.chat.completions.create({
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      model,
+      temperature,
+      max_tokens: maxTokens,
+      tools: toOpenAITools(request),
+    }, { signal: request.signal });
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
+    return {
+      content: message?.content || (toolCalls ? '' : 'No response generated'),
+      toolCalls,
+      usage: completion.usage && {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+      },
+    };
+  },
+
+  async *stream(request) {
+    const { model, temperature, maxTokens } = request;
+    const completion = await groq!.chat.completions.create({
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      model,
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+    }, { signal: request.signal });
+
+    for await (const chunk of completion) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield { type: 'text', text };
+      // Groq reports usage on the final chunk
+      const usage = chunk.x_groq?.usage;
+      if (usage) {
+        yield {
+          type: 'usage',
+          usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens },
+        };
+      }
+    }
+  },
+};
@@ -0,0 +1,36 @@
+import { findModelConfig, getAvailableModels, type AIModel, type ProviderId } from '@/lib/ai-models';
+import { openaiAdapter } from './openai';
+import { anthropicAdapter } from './anthropic';
+import { googleAdapter } from './google';
+import { groqAdapter } from './groq';
+import { discoverLocalModels, localAdapter } from './local';
+import type { ProviderAdapter } from './types';
+
+export type * from './types';
+export { discoverLocalModels, LOCAL_MODEL_PREFIX } from './local';
+
+// One adapter per SDK, keyed by the provider named in lib/ai-models.ts
+const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  OpenAI: openaiAdapter,
+  Anthropic: anthropicAdapter,
+  Google: googleAdapter,
+  Groq: groqAdapter,
+  Local: localAdapter,
+};
+
+export function getProvider(id: ProviderId): ProviderAdapter {
+  return PROVIDERS[id];
+}
+
+// Resolve a model id to its config and adapter; null for unknown models
+export function resolveModel(modelId: string): { config: AIModel; adapter: ProviderAdapter } | null {
+  const config = findModelConfig(modelId);
+  if (!config) return null;
+  return { config, adapter: getProvider(config.provider) };
+}
+
+// Built-in models plus whatever the self-hosted endpoint currently serves
+export async function listModels(): Promise<AIModel[]> {
+  await discoverLocalModels();
+  return getAvailableModels();
+}
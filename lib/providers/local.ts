@@ -0,0 +1,116 @@
+import OpenAI from 'openai';
+import { registerModels, type AIModel } from '@/lib/ai-models';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format';
+import type { ChatRequest, ProviderAdapter } from './types';
+
+// Any OpenAI-compatible server (Ollama, vLLM, llama.cpp), e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+const baseURL = process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, '');
+const apiKey = process.env.LOCAL_LLM_API_KEY || 'not-needed';
+
+const local = baseURL ? new OpenAI({ baseURL, apiKey }) : null;
+
+// Local ids are namespaced so they can never shadow a hosted model of the same name
+export const LOCAL_MODEL_PREFIX = 'local/';
+const DEFAULT_CONTEXT_WINDOW = parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192', 10);
+const DISCOVERY_TTL_MS = 60_000;
+const DISCOVERY_TIMEOUT_MS = 5_000;
+
+const upstreamModel = ({ model }: ChatRequest) => model.slice(LOCAL_MODEL_PREFIX.length);
+
+// vLLM reports max_model_len and llama.cpp reports meta.n_ctx_train; Ollama reports neither
+interface ListedModel {
+  id: string;
+  max_model_len?: number;
+  meta?: { n_ctx_train?: number };
+}
+
+const toModelConfig = (listed: ListedModel): AIModel => ({
+  id: `${LOCAL_MODEL_PREFIX}${listed.id}`,
+  name: listed.id,
+  provider: 'Local',
+  description: 'Self-hosted',
+  icon: '',
+  contextWindow: listed.max_model_len || listed.meta?.n_ctx_train || DEFAULT_CONTEXT_WINDOW,
+});
+
+let discovered: { models: AIModel[]; at: number } | null = null;
+
+// Read the endpoint's /v1/models and register what it serves; cached, and a no-op without LOCAL_LLM_BASE_URL
+export async function discoverLocalModels(): Promise<AIModel[]> {
+  if (!baseURL) return [];
+  if (discovered && Date.now() - discovered.at < DISCOVERY_TTL_MS) return discovered.models;
+
+  try {
+    const response = await fetch(`${baseURL}/models`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`GET /models returned ${response.status}`);
+
+    const { data = [] }: { data?: ListedModel[] } = await response.json();
+    const models = data.map(toModelConfig);
+    registerModels(models);
+    discovered = { models, at: Date.now() };
+  } catch (error) {
+    // Keep serving the last good list while the endpoint is down
+    console.error('Local model discovery failed:', error);
+    discovered = { models: discovered?.models || [], at: Date.now() };
+  }
+  return discovered.models;
+}
+
+export const localAdapter: ProviderAdapter = {
+  id: 'Local',
+  apiKeyEnv: 'LOCAL_LLM_BASE_URL',
+  // Tool support depends on the served model; servers without it ignore the tools field
+  capabilities: { streaming: true, systemPrompt: true, vision: false, tools: true },
+
+  isConfigured: () => !!local,
+
+  async chat(request) {
+    const { temperature, maxTokens } = request;
+    const completion = await local!.chat.completions.create({
+      model: upstreamModel(request),
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      temperature,
+      max_tokens: maxTokens,
+      tools: toOpenAITools(request),
+    }, { signal: request.signal });
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
+    return {
+      content: message?.content || (toolCalls ? '' : 'No response generated'),
+      toolCalls,
+      usage: completion.usage && {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+      },
+    };
+  },
+
+  async *stream(request) {
+    const { temperature, maxTokens } = request;
+    const completion = await local!.chat.completions.create({
+      model: upstreamModel(request),
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    for await (const chunk of completion) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield { type: 'text', text };
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          usage: { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens },
+        };
+      }
+    }
+  },
+};
@@ -0,0 +1,69 @@
+import type { ChatRequest, ChatResult, ToolCall } from './types';
+
+// Message and tool shapes shared by the OpenAI chat completions API and compatible ones (Groq)
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export const toOpenAIMessages = ({ system, messages }: ChatRequest) => {
+  const mapped = messages.map(m => {
+    if (m.role === 'tool') {
+      return { role: 'tool' as const, tool_call_id: m.toolCallId || '', content: m.content };
+    }
+    if (m.role === 'assistant') {
+      return {
+        role: 'assistant' as const,
+        content: m.content || null,
+        ...(m.toolCalls?.length && {
+          tool_calls: m.toolCalls.map((call): OpenAIToolCall => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        }),
+      };
+    }
+    if (m.role === 'user' && m.images?.length) {
+      return {
+        role: 'user' as const,
+        content: [
+          ...m.images.map(image => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+          })),
+          { type: 'text' as const, text: m.content },
+        ],
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+
+  // The system prompt travels as the first message
+  return system ? [{ role: 'system' as const, content: system }, ...mapped] : mapped;
+};
+
+export const toOpenAITools = ({ tools }: ChatRequest) => (
+  tools?.length
+    ? tools.map(tool => ({ type: 'function' as const, function: tool }))
+    : undefined
+);
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const fromOpenAIToolCalls = (
+  calls?: { id: string; type: string; function?: { name: string; arguments: string } }[] | null
+): ChatResult['toolCalls'] => {
+  const toolCalls: ToolCall[] = (calls || [])
+    .filter(call => call.type === 'function' && call.function)
+    .map(call => ({ id: call.id, name: call.function!.name, arguments: parseArguments(call.function!.arguments) }));
+  return toolCalls.length ? toolCalls : undefined;
+};
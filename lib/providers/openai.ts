@@ -0,0 +1,62 @@
+import OpenAI from 'openai';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format';
+import type { ProviderAdapter } from './types';
+
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+}) : null;
+
+export const openaiAdapter: ProviderAdapter = {
+  id: 'OpenAI',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+
+  isConfigured: () => !!openai,
+
+  async chat(request) {
+    const { model, temperature, maxTokens } = request;
+    const completion = await openai!.chat.completions.create({
+      model,
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      temperature,
+      max_tokens: maxTokens,
+      tools: toOpenAITools(request),
+    }, { signal: request.signal });
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
+    return {
+      content: message?.content || (toolCalls ? '' : 'No response generated'),
+      toolCalls,
+      usage: completion.usage && {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+      },
+    };
+  },
+
+  async *stream(request) {
+    const { model, temperature, maxTokens } = request;
+    const completion = await openai!.chat.completions.create({
+      model,
+      messages: toOpenAIMessages(request),
+      user: request.userId,
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    for await (const chunk of completion) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield { type: 'text', text };
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          usage: { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens },
+        };
+      }
+    }
+  },
+};
@@ -0,0 +1,84 @@
+import type { ProviderId } from '@/lib/ai-models';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// A tool as offered to the model: name, description and JSON-schema parameters
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+// Base64 image bytes sent with a user turn to vision models
+export interface ChatImage {
+  mediaType: string;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // User turns only; adapters turn these into their provider's image parts
+  images?: ChatImage[];
+  // Set on assistant turns that asked for tools
+  toolCalls?: ToolCall[];
+  // Set on tool turns: the call this result answers
+  toolCallId?: string;
+  name?: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  // Composed system prompt; each adapter applies it the way its provider expects
+  system?: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  tools?: ToolSpec[];
+  // The signed-in user the call is made for, passed on where the provider accepts it for abuse monitoring
+  userId?: string;
+  // Set by failover; aborts the HTTP request when the provider takes too long
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  usage?: ChatUsage;
+  // Tools the model wants called before it can answer
+  toolCalls?: ToolCall[];
+}
+
+// Streams yield text as it arrives and usage once the provider reports it
+export type ChatStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: ChatUsage };
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  systemPrompt: boolean;
+  vision: boolean;
+  tools: boolean;
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  // Environment variable holding the API key, shown when it is missing
+  apiKeyEnv: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  stream(request: ChatRequest): AsyncIterable<ChatStreamChunk>;
+}
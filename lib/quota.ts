@@ -0,0 +1,210 @@
+import { ApiError } from '@/lib/api-errors';
+import { supabase } from '@/lib/supabase';
+
+// Per-user and per-organization limits on the AI routes
+
+type QuotaWindow = 'minute' | 'day' | 'month';
+type QuotaMetric = 'requests' | 'tokens' | 'spend';
+
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+  // USD
+  monthlySpend: number;
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const USER_LIMITS: QuotaLimits = {
+  requestsPerMinute: envNumber('USER_REQUESTS_PER_MINUTE', 20),
+  tokensPerDay: envNumber('USER_TOKENS_PER_DAY', 200_000),
+  monthlySpend: envNumber('USER_MONTHLY_SPEND_USD', 50),
+};
+
+export const ORG_LIMITS: QuotaLimits = {
+  requestsPerMinute: envNumber('ORG_REQUESTS_PER_MINUTE', 200),
+  tokensPerDay: envNumber('ORG_TOKENS_PER_DAY', 2_000_000),
+  monthlySpend: envNumber('ORG_MONTHLY_SPEND_USD', 1_000),
+};
+
+const METRICS: { metric: QuotaMetric; window: QuotaWindow; limit: keyof QuotaLimits }[] = [
+  { metric: 'requests', window: 'minute', limit: 'requestsPerMinute' },
+  { metric: 'tokens', window: 'day', limit: 'tokensPerDay' },
+  { metric: 'spend', window: 'month', limit: 'monthlySpend' },
+];
+
+// Fixed windows aligned to UTC minute, day and calendar month
+const windowBounds = (window: QuotaWindow, now = new Date()) => {
+  const start = new Date(now);
+  let reset: Date;
+  if (window === 'minute') {
+    start.setUTCSeconds(0, 0);
+    reset = new Date(start.getTime() + 60_000);
+  } else if (window === 'day') {
+    start.setUTCHours(0, 0, 0, 0);
+    reset = new Date(start.getTime() + 86_400_000);
+  } else {
+    start.setUTCDate(1);
+    start.setUTCHours(0, 0, 0, 0);
+    reset = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+  return { start, reset };
+};
+
+export interface QuotaStore {
+  get(key: string): Promise<number>;
+  // Adds amount to the counter and returns the new total; the counter may be dropped after expiresAt
+  increment(key: string, amount: number, expiresAt: Date): Promise<number>;
+}
+
+// Process-local counters for development and tests
+export class MemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, { total: number; expiresAt: number }>();
+
+  private read(key: string) {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= Date.now()) return 0;
+    return counter.total;
+  }
+
+  async get(key: string) {
+    return this.read(key);
+  }
+
+  // Read and write without an await in between, so concurrent increments cannot lose one another
+  async increment(key: string, amount: number, expiresAt: Date) {
+    const total = this.read(key) + amount;
+    this.counters.set(key, { total, expiresAt: expiresAt.getTime() });
+    return total;
+  }
+}
+
+// Shared counters for production, incremented atomically in Postgres
+export class SupabaseQuotaStore implements QuotaStore {
+  async get(key: string) {
+    const { data, error } = await supabase
+      .from('quota_counters')
+      .select('total')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    return Number(data?.total || 0);
+  }
+
+  async increment(key: string, amount: number, expiresAt: Date) {
+    const { data, error } = await supabase.rpc('increment_quota_counter', {
+      p_key: key,
+      p_amount: amount,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) throw error;
+    return Number(data);
+  }
+}
+
+const createStore = (): QuotaStore => {
+  const backend = process.env.QUOTA_STORE || (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+  return backend === 'supabase' ? new SupabaseQuotaStore() : new MemoryQuotaStore();
+};
+
+let store: QuotaStore = createStore();
+
+// Swap the backend, e.g. a fresh MemoryQuotaStore in tests
+export const setQuotaStore = (next: QuotaStore) => {
+  store = next;
+};
+
+export interface QuotaSubject {
+  userId: string;
+  orgId?: string | null;
+}
+
+const scopesFor = ({ userId, orgId }: QuotaSubject) => [
+  { scope: 'user' as const, id: userId, limits: USER_LIMITS },
+  ...(orgId ? [{ scope: 'org' as const, id: orgId, limits: ORG_LIMITS }] : []),
+];
+
+const counterKey = (scope: string, id: string, metric: QuotaMetric, start: Date) => (
+  `${scope}:${id}:${metric}:${start.toISOString()}`
+);
+
+export interface QuotaUsage {
+  scope: 'user' | 'org';
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export async function getQuotaStatus(subject: QuotaSubject): Promise<QuotaUsage[]> {
+  const now = new Date();
+  const status: QuotaUsage[] = [];
+
+  for (const { scope, id, limits } of scopesFor(subject)) {
+    for (const { metric, window, limit } of METRICS) {
+      const { start, reset } = windowBounds(window, now);
+      const used = await store.get(counterKey(scope, id, metric, start));
+      status.push({
+        scope,
+        metric,
+        used,
+        limit: limits[limit],
+        remaining: Math.max(0, limits[limit] - used),
+        resetAt: reset.toISOString(),
+      });
+    }
+  }
+  return status;
+}
+
+const QUOTA_MESSAGES: Record<QuotaMetric, string> = {
+  requests: 'Too many requests',
+  tokens: 'Daily token limit reached',
+  spend: 'Monthly spend cap reached',
+};
+
+const quotaError = ({ scope, metric, limit, resetAt }: Pick<QuotaUsage, 'scope' | 'metric' | 'limit' | 'resetAt'>) => (
+  new ApiError('rate_limited', `${QUOTA_MESSAGES[metric]}${scope === 'org' ? ' for your organization' : ''}.`, {
+    quota: metric,
+    scope,
+    limit,
+    resetAt,
+  })
+);
+
+// Count this request and reject it if any user or organization limit is exhausted.
+// The request is counted first and judged on the total the store returns, so concurrent requests
+// cannot all slip past a check made before any of them was counted.
+export async function enforceQuota(subject: QuotaSubject): Promise<void> {
+  const exhausted = (await getQuotaStatus(subject)).find(q => q.metric !== 'requests' && q.remaining <= 0);
+  if (exhausted) throw quotaError(exhausted);
+
+  const { start, reset } = windowBounds('minute');
+  for (const { scope, id, limits } of scopesFor(subject)) {
+    const requests = await store.increment(counterKey(scope, id, 'requests', start), 1, reset);
+    if (requests > limits.requestsPerMinute) {
+      throw quotaError({ scope, metric: 'requests', limit: limits.requestsPerMinute, resetAt: reset.toISOString() });
+    }
+  }
+}
+
+// Charge tokens and spend once the provider reports them
+export async function consumeQuota(subject: QuotaSubject, { tokens = 0, cost = 0 }: { tokens?: number; cost?: number }) {
+  const day = windowBounds('day');
+  const month = windowBounds('month');
+
+  try {
+    for (const { scope, id } of scopesFor(subject)) {
+      if (tokens > 0) await store.increment(counterKey(scope, id, 'tokens', day.start), tokens, day.reset);
+      if (cost > 0) await store.increment(counterKey(scope, id, 'spend', month.start), cost, month.reset);
+    }
+  } catch (error) {
+    console.error('Error updating quota counters:', error);
+  }
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { supabase } from '@/lib/supabase';
+import type { ChatRequest, ChatUsage } from '@/lib/providers';
+
+// Opt-in cache of chat replies for identical requests, isolated per organization
+
+const TTL_SECONDS = parseInt(process.env.RESPONSE_CACHE_TTL_SECONDS || '3600', 10);
+
+export interface CachedResponse {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, value: CachedResponse, expiresAt: Date): Promise<void>;
+}
+
+// Process-local entries for development and tests
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse, expiresAt: Date) {
+    this.entries.set(key, { value, expiresAt: expiresAt.getTime() });
+  }
+}
+
+// Shared entries for production
+export class SupabaseResponseCacheStore implements ResponseCacheStore {
+  async get(key: string) {
+    const { data, error } = await supabase
+      .from('response_cache')
+      .select('value')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.value as CachedResponse) || null;
+  }
+
+  async set(key: string, value: CachedResponse, expiresAt: Date) {
+    const { error } = await supabase
+      .from('response_cache')
+      .upsert({ key, value, expires_at: expiresAt.toISOString() });
+
+    if (error) throw error;
+  }
+}
+
+const createStore = (): ResponseCacheStore => {
+  const backend = process.env.RESPONSE_CACHE_STORE || (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+  return backend === 'supabase' ? new SupabaseResponseCacheStore() : new MemoryResponseCacheStore();
+};
+
+let store: ResponseCacheStore = createStore();
+
+// Swap the backend, e.g. a fresh MemoryResponseCacheStore in tests
+export const setResponseCacheStore = (next: ResponseCacheStore) => {
+  store = next;
+};
+
+export interface CacheScope {
+  userId: string;
+  orgId?: string | null;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Replies are shared within an organization; personal accounts only ever see their own
+export function cacheKey({ userId, orgId }: CacheScope, model: string, request: Omit<ChatRequest, 'model'>): string {
+  const scope = orgId ? `org:${orgId}` : `user:${userId}`;
+  const payload = JSON.stringify({
+    model,
+    system: normalize(request.system || ''),
+    messages: request.messages.map(m => [m.role, normalize(m.content), ...(m.images || []).map(image => image.data)]),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+  });
+  return `${scope}:${createHash('sha256').update(payload).digest('hex')}`;
+}
+
+// Sampled replies differ run to run, so they are only reused when the caller accepts that
+export const isCacheable = (request: Pick<ChatRequest, 'temperature'>, allowSampled: boolean) => (
+  request.temperature === 0 || allowSampled
+);
+
+// Cache failures fall through to the provider rather than failing the request
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+  try {
+    return await store.get(key);
+  } catch (error) {
+    console.error('Error reading response cache:', error);
+    return null;
+  }
+}
+
+export async function cacheResponse(key: string, value: CachedResponse) {
+  try {
+    await store.set(key, value, new Date(Date.now() + TTL_SECONDS * 1000));
+  } catch (error) {
+    console.error('Error writing response cache:', error);
+  }
+}
@@ -0,0 +1,238 @@
+import { execFile, spawn } from 'child_process';
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { ApiError } from '@/lib/api-errors';
+import { JAIL_WORKDIR, jailCommand } from './jail';
+import type { SandboxLanguage } from './languages';
+
+// Runs untrusted JavaScript and Python snippets in a filesystem jail around a throwaway directory, with no network
+
+export { toSandboxLanguage, type SandboxLanguage } from './languages';
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const TIMEOUT_MS = envNumber('SANDBOX_TIMEOUT_MS', 10_000);
+const CPU_SECONDS = envNumber('SANDBOX_CPU_SECONDS', 5);
+const MEMORY_MB = envNumber('SANDBOX_MEMORY_MB', 256);
+const MAX_CODE_LENGTH = 20_000;
+// Per stream; the rest is cut off with a marker
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const MAX_FILES = 10;
+const MAX_FILE_BYTES = 256 * 1024;
+// Address space a jitless node reserves before running anything, on top of the snippet's allowance
+const NODE_BASELINE_MB = 256;
+
+export interface SandboxFile {
+  name: string;
+  size: number;
+  // Base64, omitted for files over MAX_FILE_BYTES
+  content?: string;
+}
+
+export interface SandboxResult {
+  language: SandboxLanguage;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  files: SandboxFile[];
+}
+
+const SOURCE_FILES: Record<SandboxLanguage, string> = {
+  javascript: 'main.js',
+  python: 'main.py',
+};
+
+interface Interpreter {
+  executable: string;
+  // Installation directory, mounted read-only into the jail
+  prefix: string;
+}
+
+// The jail has no PATH lookups or version-manager shims, so each interpreter is resolved to its real binary once
+const PROBES: Record<SandboxLanguage, { command: string; args: string[] }> = {
+  javascript: {
+    command: process.env.SANDBOX_NODE || 'node',
+    args: ['-p', 'process.execPath + "\\n" + path.dirname(path.dirname(process.execPath))'],
+  },
+  python: {
+    command: process.env.SANDBOX_PYTHON || 'python3',
+    args: ['-I', '-c', 'import sys; print(sys.executable); print(sys.base_prefix)'],
+  },
+};
+
+const interpreters = new Map<SandboxLanguage, Promise<Interpreter>>();
+
+const resolveInterpreter = (language: SandboxLanguage): Promise<Interpreter> => {
+  let resolved = interpreters.get(language);
+  if (!resolved) {
+    const { command, args } = PROBES[language];
+    resolved = promisify(execFile)(command, args, { timeout: 5000 }).then(({ stdout }) => {
+      const [executable, prefix] = stdout.trim().split('\n');
+      return { executable, prefix };
+    });
+    // A failed probe is retried on the next run rather than cached
+    resolved.catch(() => interpreters.delete(language));
+    interpreters.set(language, resolved);
+  }
+  return resolved;
+};
+
+const interpreterArgs = (language: SandboxLanguage, executable: string): string[] => {
+  const source = SOURCE_FILES[language];
+  if (language === 'javascript') {
+    // Without the JIT and WebAssembly, V8 reserves little enough address space for --as to cap memory
+    return [
+      executable,
+      '--no-warnings',
+      '--jitless',
+      '--no-expose-wasm',
+      '--experimental-permission',
+      `--allow-fs-read=${JAIL_WORKDIR}`,
+      `--allow-fs-write=${JAIL_WORKDIR}`,
+      `--max-old-space-size=${MEMORY_MB}`,
+      source,
+    ];
+  }
+  return [executable, '-I', '-B', source];
+};
+
+// prlimit caps CPU time, processes, file size and address space inside the jail
+const sandboxCommand = (language: SandboxLanguage, interpreter: Interpreter, root: string, workdir: string): string[] => {
+  const addressSpaceMb = language === 'javascript' ? MEMORY_MB + NODE_BASELINE_MB : MEMORY_MB;
+  return jailCommand(root, workdir, interpreter.prefix, [
+    'prlimit',
+    `--cpu=${CPU_SECONDS}`,
+    '--nproc=64',
+    `--fsize=${MAX_FILE_BYTES * 4}`,
+    `--as=${addressSpaceMb * 1024 * 1024}`,
+    '--',
+    ...interpreterArgs(language, interpreter.executable),
+  ]);
+};
+
+const collect = () => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  return {
+    push(chunk: Buffer) {
+      const room = MAX_OUTPUT_BYTES - size;
+      if (chunk.length > room) truncated = true;
+      if (room <= 0) return;
+      chunks.push(chunk.subarray(0, room));
+      size += Math.min(chunk.length, room);
+    },
+    text() {
+      return Buffer.concat(chunks).toString('utf-8') + (truncated ? '\n[output truncated]' : '');
+    },
+  };
+};
+
+const listFiles = async (dir: string, exclude: string): Promise<SandboxFile[]> => {
+  const entries = (await readdir(dir, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && entry.name !== exclude)
+    .slice(0, MAX_FILES);
+
+  return Promise.all(entries.map(async ({ name }) => {
+    const file = path.join(dir, name);
+    const { size } = await stat(file);
+    return {
+      name,
+      size,
+      ...(size <= MAX_FILE_BYTES && { content: (await readFile(file)).toString('base64') }),
+    };
+  }));
+};
+
+export async function runCode(language: SandboxLanguage, code: string): Promise<SandboxResult> {
+  if (!code.trim()) throw new ApiError('invalid_input', 'There is no code to run.');
+  if (code.length > MAX_CODE_LENGTH) {
+    throw new ApiError('invalid_input', `Code must be at most ${MAX_CODE_LENGTH} characters.`);
+  }
+
+  let interpreter: Interpreter;
+  try {
+    interpreter = await resolveInterpreter(language);
+  } catch (error) {
+    console.error('Sandbox interpreter lookup error:', error);
+    throw new ApiError('provider_unavailable', 'Code execution is not available on this server.');
+  }
+
+  // The snippet sees only workdir; root is where the jail's empty filesystem is mounted
+  const base = await mkdtemp(path.join(tmpdir(), 'sandbox-'));
+  const dir = path.join(base, 'work');
+  const root = path.join(base, 'root');
+  const startedAt = Date.now();
+
+  try {
+    await Promise.all([mkdir(dir), mkdir(root)]);
+    await writeFile(path.join(dir, SOURCE_FILES[language]), code);
+    const [command, ...args] = sandboxCommand(language, interpreter, root, dir);
+    const stdout = collect();
+    const stderr = collect();
+
+    const { exitCode, signal, timedOut } = await new Promise<{
+      exitCode: number | null;
+      signal: NodeJS.Signals | null;
+      timedOut: boolean;
+    }>((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: dir,
+        // Only what the interpreters need; no API keys or other server secrets
+        env: {
+          NODE_ENV: process.env.NODE_ENV,
+          PATH: process.env.PATH || '/usr/bin:/bin',
+          HOME: JAIL_WORKDIR,
+          TMPDIR: JAIL_WORKDIR,
+          LANG: 'C.UTF-8',
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true,
+      });
+      let killed = false;
+      const timer = setTimeout(() => {
+        killed = true;
+        // Kill the whole process group so forked children go too
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      }, TIMEOUT_MS);
+
+      child.stdout.on('data', stdout.push);
+      child.stderr.on('data', stderr.push);
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        console.error('Sandbox spawn error:', error);
+        reject(new ApiError('provider_unavailable', 'Code execution is not available on this server.'));
+      });
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        resolve({ exitCode: code, signal, timedOut: killed });
+      });
+    });
+
+    return {
+      language,
+      stdout: stdout.text(),
+      stderr: stderr.text() + (
+        timedOut ? `\nTimed out after ${TIMEOUT_MS / 1000}s`
+          : signal ? `\nKilled by ${signal} (limits: ${CPU_SECONDS}s CPU, ${MEMORY_MB} MB memory)` : ''
+      ),
+      exitCode,
+      timedOut,
+      durationMs: Date.now() - startedAt,
+      files: await listFiles(dir, SOURCE_FILES[language]),
+    };
+  } finally {
+    await rm(base, { recursive: true, force: true });
+  }
+}
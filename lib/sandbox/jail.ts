@@ -0,0 +1,74 @@
+// Filesystem jail for sandboxed snippets, built from util-linux alone so no extra binaries are needed.
+// unshare gives the snippet its own user, mount, network and process namespaces; the script below
+// then builds an empty root holding only the system libraries and the interpreter (read-only) and the
+// working directory (read-write, at /sandbox), pivots into it and drops every capability.
+
+// Arguments: <root mountpoint> <working dir> <read-only paths...> -- <command...>
+const JAIL_SCRIPT = `
+set -e
+root=$1 work=$2
+shift 2
+mount -t tmpfs -o size=16m,mode=755 jail "$root"
+while [ "$1" != -- ]; do
+  p=$1
+  shift
+  if [ -L "$p" ]; then
+    mkdir -p "$root$(dirname "$p")"
+    ln -s "$(readlink "$p")" "$root$p"
+  elif [ -d "$p" ]; then
+    mkdir -p "$root$p"
+    mount --bind "$p" "$root$p"
+    mount -o remount,bind,ro "$root$p"
+  elif [ -e "$p" ]; then
+    mkdir -p "$root$(dirname "$p")"
+    touch "$root$p"
+    mount --bind "$p" "$root$p"
+    mount -o remount,bind,ro "$root$p"
+  fi
+done
+shift
+mkdir -p "$root/sandbox" "$root/dev" "$root/proc"
+mount --bind "$work" "$root/sandbox"
+for device in null zero random urandom; do
+  touch "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+mount -t proc proc "$root/proc" 2>/dev/null || rmdir "$root/proc"
+cd "$root"
+mkdir .old
+pivot_root . .old
+umount -l /.old
+rmdir /.old
+mount -o remount,ro /
+exec setpriv --no-new-privs --bounding-set=-all --inh-caps=-all env -C /sandbox "$@"
+`;
+
+// Where the snippet's working directory appears inside the jail
+export const JAIL_WORKDIR = '/sandbox';
+
+// Shared libraries and the dynamic loader; missing paths are skipped and merged-/usr symlinks recreated
+const SYSTEM_PATHS = [
+  '/usr',
+  '/lib',
+  '/lib64',
+  '/lib32',
+  '/bin',
+  '/sbin',
+  '/etc/ld.so.cache',
+  '/etc/ld.so.conf',
+  '/etc/ld.so.conf.d',
+];
+
+// interpreterPrefix is mounted too when the interpreter lives outside /usr, e.g. under pyenv or nvm
+export const jailCommand = (root: string, workdir: string, interpreterPrefix: string, command: string[]): string[] => {
+  const readOnly = SYSTEM_PATHS.some(p => interpreterPrefix === p || interpreterPrefix.startsWith(`${p}/`))
+    ? SYSTEM_PATHS
+    : [...SYSTEM_PATHS, interpreterPrefix];
+
+  return [
+    'unshare', '--user', '--map-root-user', '--mount', '--net', '--pid', '--ipc', '--uts', '--fork', '--kill-child',
+    'sh', '-c', JAIL_SCRIPT, 'jail',
+    root, workdir, ...readOnly, '--',
+    ...command,
+  ];
+};
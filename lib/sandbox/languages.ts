@@ -0,0 +1,16 @@
+// Code block languages the sandbox can run; safe to import from the client
+
+export type SandboxLanguage = 'javascript' | 'python';
+
+const LANGUAGE_ALIASES: Record<string, SandboxLanguage> = {
+  javascript: 'javascript',
+  js: 'javascript',
+  node: 'javascript',
+  python: 'python',
+  py: 'python',
+  python3: 'python',
+};
+
+export const toSandboxLanguage = (language?: string): SandboxLanguage | null => (
+  LANGUAGE_ALIASES[(language || '').toLowerCase()] || null
+);
@@ -0,0 +1,35 @@
+import type { SearchProvider, SearchResult } from './types';
+
+interface BraveWebResult {
+  title: string;
+  url: string;
+  description?: string;
+}
+
+export class BraveSearchProvider implements SearchProvider {
+  id = 'brave';
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string, { limit }: { limit: number }): Promise<SearchResult[]> {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search');
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(limit));
+
+    const response = await fetch(url, {
+      headers: { 'Accept': 'application/json', 'X-Subscription-Token': this.apiKey },
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`Brave search failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.web?.results || []).map((result: BraveWebResult) => ({
+      title: result.title,
+      url: result.url,
+      // Brave highlights matches with <strong> tags
+      snippet: (result.description || '').replace(/<[^>]+>/g, ''),
+    }));
+  }
+}
@@ -0,0 +1,68 @@
+import { ApiError } from '@/lib/api-errors';
+import { BraveSearchProvider } from './brave';
+import type { Citation, SearchProvider, SearchResult } from './types';
+
+export type * from './types';
+export { StubSearchProvider } from './stub';
+
+const MAX_RESULTS = 5;
+const MAX_QUERY_LENGTH = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'can', 'could', 'do', 'does', 'for', 'how', 'i', 'in', 'is', 'it',
+  'me', 'of', 'on', 'or', 'please', 'tell', 'the', 'to', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'you', 'your',
+]);
+
+// No fallback without a key: the stub's fixture pages would be cited to users as real sources
+let provider: SearchProvider | null = process.env.BRAVE_SEARCH_API_KEY
+  ? new BraveSearchProvider(process.env.BRAVE_SEARCH_API_KEY)
+  : null;
+
+export const getSearchProvider = () => provider;
+
+export const isWebSearchConfigured = () => provider !== null;
+
+// Swap the backend, e.g. a StubSearchProvider with fixture documents in tests
+export const setSearchProvider = (next: SearchProvider) => {
+  provider = next;
+};
+
+// The question as asked, then a keyword-only variant that search engines sometimes handle better
+export function buildSearchQueries(message: string): string[] {
+  const question = message.replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+  const keywords = question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+
+  return [question, keywords].filter((query, index, all) => query && all.indexOf(query) === index);
+}
+
+// One paid query per message; the keyword variant is only tried when the question as asked finds nothing
+export async function runWebSearch(message: string): Promise<Citation[]> {
+  if (!provider) {
+    throw new ApiError('configuration_error', 'Web search is not configured on this server.');
+  }
+  let results: SearchResult[] = [];
+  for (const query of buildSearchQueries(message)) {
+    results = await provider.search(query, { limit: MAX_RESULTS });
+    if (results.length > 0) break;
+  }
+
+  const seen = new Set<string>();
+  return results
+    .filter(result => !seen.has(result.url) && seen.add(result.url))
+    .slice(0, MAX_RESULTS)
+    .map((result, i) => ({ ...result, index: i + 1 }));
+}
+
+export function formatSearchContext(citations: Citation[]): string {
+  const sources = citations
+    .map(c => `[${c.index}] ${c.title}\n${c.url}\n${c.snippet}`)
+    .join('\n\n');
+
+  return `Web search results for the user's latest message:\n\n${sources}\n\nUse these results where relevant and cite them inline with their number in square brackets, e.g. [1]. Do not invent sources.`;
+}
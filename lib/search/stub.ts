@@ -0,0 +1,42 @@
+import type { SearchProvider, SearchResult } from './types';
+
+const DEFAULT_DOCUMENTS: SearchResult[] = [
+  {
+    title: 'Next.js Route Handlers',
+    url: 'https://nextjs.org/docs/app/building-your-application/routing/route-handlers',
+    snippet: 'Route Handlers allow you to create custom request handlers for a given route using the Web Request and Response APIs.',
+  },
+  {
+    title: 'Server-sent events - MDN',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events',
+    snippet: 'With server-sent events, a server can send new data to a web page at any time by pushing messages to the page.',
+  },
+  {
+    title: 'Supabase Row Level Security',
+    url: 'https://supabase.com/docs/guides/database/postgres/row-level-security',
+    snippet: 'Row Level Security lets you restrict which rows a user can read or write using Postgres policies.',
+  },
+];
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+// Local keyword index so search works without network access (tests, CI, offline dev)
+export class StubSearchProvider implements SearchProvider {
+  id = 'stub';
+
+  constructor(private documents: SearchResult[] = DEFAULT_DOCUMENTS) {}
+
+  async search(query: string, { limit }: { limit: number }) {
+    const terms = new Set(tokenize(query));
+
+    return this.documents
+      .map(doc => ({
+        doc,
+        score: tokenize(`${doc.title} ${doc.snippet}`).filter(word => terms.has(word)).length,
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ doc }) => doc);
+  }
+}
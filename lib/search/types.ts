@@ -0,0 +1,17 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface SearchProvider {
+  id: string;
+  search(query: string, options: { limit: number }): Promise<SearchResult[]>;
+}
+
+// A search result as cited in an assistant reply, numbered from 1
+export interface Citation extends SearchResult {
+  index: number;
+  // Set when the source is a knowledge base document rather than a web page; url is then empty
+  document?: { id: string; name: string; page: number };
+}
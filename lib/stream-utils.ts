@@ -0,0 +1,118 @@
+import type { ApiErrorPayload } from '@/lib/api-errors';
+import type { Citation } from '@/lib/search';
+import type { ToolCallRecord } from '@/lib/tools';
+
+// Server-sent events shared by /api/chat and the chat page
+
+// Sent with the first and last events, e.g. which model actually answered
+export interface ChatStreamMeta {
+  model?: string;
+  citations?: Citation[];
+  toolCalls?: ToolCallRecord[];
+  // Served from the response cache rather than the provider
+  cached?: boolean;
+  // Shown to the user as notices, e.g. images the model could not see
+  warnings?: string[];
+}
+
+export type ChatStreamEvent =
+  | ({ type: 'start' } & ChatStreamMeta)
+  | { type: 'delta'; content: string }
+  | ({ type: 'done'; content: string } & ChatStreamMeta)
+  | { type: 'error'; error: ApiErrorPayload };
+
+const encoder = new TextEncoder();
+
+const encodeEvent = (event: ChatStreamEvent) => {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+};
+
+interface SSEResponseOptions {
+  meta?: ChatStreamMeta;
+  // Maps a mid-stream failure onto the shared error envelope
+  toErrorPayload?: (error: unknown) => ApiErrorPayload;
+}
+
+const defaultErrorPayload = (error: unknown): ApiErrorPayload => ({
+  code: 'provider_unavailable',
+  message: error instanceof Error ? error.message : 'Stream interrupted',
+  retryable: true,
+});
+
+// Wrap an async iterable of text chunks in an SSE response.
+// Chunks are read only as fast as the client takes them, and not at all once it disconnects.
+export const createSSEResponse = (
+  chunks: AsyncIterable<string>,
+  { meta = {}, toErrorPayload = defaultErrorPayload }: SSEResponseOptions = {}
+): Response => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  let content = '';
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encodeEvent({ type: 'start', ...meta }));
+    },
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.enqueue(encodeEvent({ type: 'done', content, ...meta }));
+          controller.close();
+        } else if (next.value) {
+          content += next.value;
+          controller.enqueue(encodeEvent({ type: 'delta', content: next.value }));
+        }
+      } catch (error) {
+        console.error('Stream error:', error);
+        controller.enqueue(encodeEvent({ type: 'error', error: toErrorPayload(error) }));
+        controller.close();
+      }
+    },
+    // The client went away: end the generator so the provider request is abandoned rather than run to the end
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+};
+
+export const isEventStream = (response: Response) => {
+  return (response.headers.get('content-type') || '').includes('text/event-stream');
+};
+
+// Read an SSE response body, calling onEvent for every parsed event
+export const readSSEStream = async (
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+) => {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const raw of events) {
+      const data = raw
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+};
@@ -0,0 +1,113 @@
+import { ApiError } from '@/lib/api-errors';
+import type { AuthSubject } from '@/lib/auth';
+import { supabase, type Persona } from '@/lib/supabase';
+
+const ORG_SYSTEM_PROMPT = process.env.ORG_SYSTEM_PROMPT ||
+  'You are CORPREX AI, a helpful assistant for enterprise teams. Answer accurately and concisely, and say so when you are unsure.';
+
+interface SystemPromptLayers {
+  customInstructions?: string;
+  persona?: Pick<Persona, 'name' | 'prompt'> | null;
+}
+
+// Layers go from broadest to most specific: org default, user instructions, conversation persona
+export function composeSystemPrompt({ customInstructions, persona }: SystemPromptLayers): string {
+  const layers = [ORG_SYSTEM_PROMPT];
+
+  if (customInstructions?.trim()) {
+    layers.push(`Custom instructions from the user:\n${customInstructions.trim()}`);
+  }
+
+  if (persona?.prompt.trim()) {
+    layers.push(`Persona for this conversation (${persona.name}):\n${persona.prompt.trim()}`);
+  }
+
+  return layers.join('\n\n');
+}
+
+// A persona's prompt is private to its owner, so only they can attach it to a conversation
+export async function assertPersonaOwner(userId: string, personaId: string) {
+  const { data, error } = await supabase
+    .from('personas')
+    .select('id')
+    .eq('id', personaId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError('invalid_input', 'Persona not found.', { persona_id: personaId });
+  }
+}
+
+// The caller's own persona, or the one the creator of a workspace-shared conversation set on it.
+// The caller must already be cleared for conversationId.
+export async function loadPersona(
+  { userId }: AuthSubject,
+  personaId: string,
+  conversationId?: string | null
+): Promise<Persona> {
+  const { data, error } = await supabase
+    .from('personas')
+    .select('*')
+    .eq('id', personaId)
+    .maybeSingle();
+  if (error) throw error;
+
+  let allowed = !!data && data.user_id === userId;
+  if (data && !allowed && conversationId) {
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .select('user_id, org_id, persona_id')
+      .eq('id', conversationId)
+      .maybeSingle();
+    if (conversationError) throw conversationError;
+    allowed = !!conversation?.org_id
+      && conversation.persona_id === personaId
+      && conversation.user_id === data.user_id;
+  }
+
+  // Fail loudly rather than answer without the persona the user picked
+  if (!data || !allowed) {
+    throw new ApiError('invalid_input', 'The selected persona could not be found. Pick another persona.', { persona_id: personaId });
+  }
+  return data;
+}
+
+export async function listPersonas(userId: string): Promise<Persona[]> {
+  const { data, error } = await supabase
+    .from('personas')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPersona(userId: string, name: string, prompt: string): Promise<Persona> {
+  if (!name.trim() || !prompt.trim()) {
+    throw new ApiError('invalid_input', 'A persona needs a name and a prompt.');
+  }
+
+  const { data, error } = await supabase
+    .from('personas')
+    .insert([{ user_id: userId, name: name.trim(), prompt: prompt.trim() }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deletePersona(userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('personas')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
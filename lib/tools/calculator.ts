@@ -0,0 +1,76 @@
+import type { ToolDefinition } from './types';
+
+// Recursive-descent evaluator for + - * / % ^ and parentheses; never hands input to eval
+const evaluate = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[-+*/%^()]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error('Expression may only contain numbers, + - * / % ^ and parentheses');
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const primary = (): number => {
+    const token = next();
+    if (token === '(') {
+      const value = sum();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    const value = Number(token);
+    if (token === undefined || Number.isNaN(value)) throw new Error('Incomplete expression');
+    return value;
+  };
+
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^') {
+      next();
+      return base ** power();
+    }
+    return base;
+  };
+
+  const product = (): number => {
+    let value = power();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = power();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const result = sum();
+  if (position < tokens.length) throw new Error(`Unexpected "${peek()}"`);
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return result;
+};
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression exactly. Use this instead of doing math in your head.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Arithmetic expression, e.g. "(1200 * 0.15) / 12"' },
+    },
+    required: ['expression'],
+  },
+  scope: 'math',
+
+  async handler({ expression }) {
+    return { expression, result: evaluate(String(expression)) };
+  },
+};
@@ -0,0 +1,52 @@
+import { calculatorTool } from './calculator';
+import { runCodeTool } from './run-code';
+import { ticketLookupTool } from './tickets';
+import type { ToolCall } from '@/lib/providers';
+import type { ToolCallRecord, ToolContext, ToolDefinition } from './types';
+
+export type * from './types';
+
+const registry = new Map<string, ToolDefinition>();
+
+export const registerTool = (tool: ToolDefinition) => {
+  registry.set(tool.name, tool);
+};
+
+registerTool(calculatorTool);
+registerTool(ticketLookupTool);
+registerTool(runCodeTool);
+
+// Scopes granted to chat users, comma separated; '*' grants every tool
+export const DEFAULT_TOOL_SCOPES = (process.env.TOOL_SCOPES || 'math,tickets:read,code:execute')
+  .split(',')
+  .map(scope => scope.trim())
+  .filter(Boolean);
+
+const allows = (scopes: string[], tool: ToolDefinition) => scopes.includes('*') || scopes.includes(tool.scope);
+
+export const getTools = (scopes: string[] = DEFAULT_TOOL_SCOPES) => (
+  Array.from(registry.values()).filter(tool => allows(scopes, tool))
+);
+
+// Run one model-requested call; failures are returned to the model rather than thrown
+export async function executeToolCall(
+  call: ToolCall,
+  context: ToolContext,
+  scopes: string[] = DEFAULT_TOOL_SCOPES
+): Promise<ToolCallRecord> {
+  const tool = registry.get(call.name);
+  if (!tool || !allows(scopes, tool)) {
+    return { ...call, error: `Tool "${call.name}" is not available` };
+  }
+
+  const missing = (tool.parameters.required || []).filter(name => call.arguments[name] === undefined);
+  if (missing.length > 0) {
+    return { ...call, error: `Missing required argument(s): ${missing.join(', ')}` };
+  }
+
+  try {
+    return { ...call, result: await tool.handler(call.arguments, context) };
+  } catch (error) {
+    return { ...call, error: error instanceof Error ? error.message : 'Tool failed' };
+  }
+}
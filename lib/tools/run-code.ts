@@ -0,0 +1,25 @@
+import { runCode, toSandboxLanguage } from '@/lib/sandbox';
+import type { ToolDefinition } from './types';
+
+export const runCodeTool: ToolDefinition = {
+  name: 'run_code',
+  description: 'Run a short JavaScript (Node.js) or Python 3 program in a sandbox without network access and return stdout, stderr, the exit code and any files it wrote. Print the values you need.',
+  parameters: {
+    type: 'object',
+    properties: {
+      language: { type: 'string', enum: ['javascript', 'python'] },
+      code: { type: 'string', description: 'Complete program source' },
+    },
+    required: ['language', 'code'],
+  },
+  scope: 'code:execute',
+
+  async handler({ language, code }) {
+    const sandboxLanguage = toSandboxLanguage(String(language));
+    if (!sandboxLanguage) throw new Error(`Unsupported language "${language}"`);
+
+    const { files, ...result } = await runCode(sandboxLanguage, String(code));
+    // File contents would flood the model's context; names and sizes are enough
+    return { ...result, files: files.map(({ name, size }) => ({ name, size })) };
+  },
+};
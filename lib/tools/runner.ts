@@ -0,0 +1,75 @@
+import { resolveModel, type ChatMessage, type ChatRequest, type ChatResult, type ChatUsage } from '@/lib/providers';
+import { chatWithFailover } from '@/lib/providers/failover';
+import { DEFAULT_TOOL_SCOPES, executeToolCall, getTools } from './index';
+import type { ToolCallRecord, ToolContext } from './types';
+
+// Model round-trips that may request tools before the reply is forced to plain text
+const MAX_TOOL_ITERATIONS = parseInt(process.env.MAX_TOOL_ITERATIONS || '5', 10);
+
+const TOOL_LIMIT_NOTE = 'You have used all available tool calls. Answer now using the tool results you already have.';
+
+interface RunWithToolsOptions {
+  chain: string[];
+  request: Omit<ChatRequest, 'model' | 'tools'>;
+  context: ToolContext;
+  scopes?: string[];
+  maxIterations?: number;
+}
+
+const addUsage = (total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined => (
+  usage ? {
+    inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  } : total
+);
+
+// Call the model, run any tools it asks for, feed the results back, and repeat until it answers
+export async function runWithTools({
+  chain,
+  request,
+  context,
+  scopes = DEFAULT_TOOL_SCOPES,
+  maxIterations = MAX_TOOL_ITERATIONS,
+}: RunWithToolsOptions): Promise<{ model: string; result: ChatResult; toolCalls: ToolCallRecord[] }> {
+  const tools = getTools(scopes).map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const messages: ChatMessage[] = [...request.messages];
+  const toolCalls: ToolCallRecord[] = [];
+  let usage: ChatUsage | undefined;
+
+  // Fail over only between models that support tools; once one answers, the loop stays on it
+  const toolChain = chain.filter(id => resolveModel(id)?.adapter.capabilities.tools);
+  let candidates = toolChain.length > 0 ? toolChain : chain;
+
+  for (let iteration = 0; iteration <= maxIterations; iteration++) {
+    const finalTurn = iteration === maxIterations;
+    // Tools stay declared on the last turn because some providers reject tool history without them
+    const { model, result } = await chatWithFailover(candidates, {
+      ...request,
+      system: finalTurn ? `${request.system || ''}\n\n${TOOL_LIMIT_NOTE}`.trim() : request.system,
+      messages,
+      tools: tools.length > 0 ? tools : undefined,
+    });
+    candidates = [model];
+    usage = addUsage(usage, result.usage);
+
+    if (!result.toolCalls?.length || finalTurn) {
+      const content = result.content || 'The tool call limit was reached before an answer was ready.';
+      return { model, result: { ...result, content, usage, toolCalls: undefined }, toolCalls };
+    }
+
+    messages.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const record = await executeToolCall(call, context, scopes);
+      toolCalls.push(record);
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(record.error ? { error: record.error } : record.result ?? null),
+      });
+    }
+  }
+
+  // Unreachable: the last iteration always returns
+  throw new Error('Tool loop exited without a reply');
+}
@@ -0,0 +1,40 @@
+import type { ToolDefinition } from './types';
+
+interface Ticket {
+  id: string;
+  title: string;
+  status: 'open' | 'in_progress' | 'resolved';
+  priority: 'low' | 'medium' | 'high';
+  assignee: string | null;
+  updatedAt: string;
+}
+
+// Local stand-in for the ticketing system so the tool works in dev, CI and offline
+const STUB_TICKETS: Ticket[] = [
+  { id: 'SUP-101', title: 'SSO login loops back to sign-in page', status: 'in_progress', priority: 'high', assignee: 'platform', updatedAt: '2025-01-14' },
+  { id: 'SUP-102', title: 'Invoice PDF missing VAT number', status: 'open', priority: 'medium', assignee: null, updatedAt: '2025-01-12' },
+  { id: 'SUP-103', title: 'Export to Markdown drops code blocks', status: 'resolved', priority: 'low', assignee: 'web', updatedAt: '2025-01-09' },
+];
+
+export const ticketLookupTool: ToolDefinition = {
+  name: 'lookup_ticket',
+  description: 'Look up internal support tickets by id (e.g. "SUP-101") or by keywords in the title.',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Exact ticket id' },
+      query: { type: 'string', description: 'Keywords to match against ticket titles' },
+    },
+  },
+  scope: 'tickets:read',
+
+  async handler({ id, query }) {
+    if (typeof id === 'string' && id) {
+      const ticket = STUB_TICKETS.find(t => t.id.toLowerCase() === id.toLowerCase());
+      return ticket || { error: `No ticket with id ${id}` };
+    }
+    const terms = String(query || '').toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) throw new Error('Provide an id or a query');
+    return STUB_TICKETS.filter(t => terms.some(term => t.title.toLowerCase().includes(term)));
+  },
+};
@@ -0,0 +1,19 @@
+import type { ToolCall, ToolSpec } from '@/lib/providers';
+
+export interface ToolContext {
+  userId: string | null;
+  orgId?: string | null;
+  conversationId?: string;
+}
+
+export interface ToolDefinition extends ToolSpec {
+  // Permission the caller needs before the model is offered this tool, e.g. 'tickets:read'
+  scope: string;
+  handler(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+}
+
+// A tool call as persisted with the assistant message and rendered in the chat
+export interface ToolCallRecord extends ToolCall {
+  result?: unknown;
+  error?: string;
+}
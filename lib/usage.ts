@@ -0,0 +1,43 @@
+import { calculateCost } from '@/lib/ai-models';
+import { supabase, type UsageRecord } from '@/lib/supabase';
+import type { ChatUsage } from '@/lib/providers';
+
+// DALL·E 3 price per image, by quality and size
+const IMAGE_PRICING: Record<string, Record<string, number>> = {
+  standard: { '1024x1024': 0.04, '1024x1792': 0.08, '1792x1024': 0.08 },
+  hd: { '1024x1024': 0.08, '1024x1792': 0.12, '1792x1024': 0.12 },
+};
+
+export const calculateImageCost = (size: string, quality: string = 'standard'): number => {
+  return IMAGE_PRICING[quality]?.[size] ?? IMAGE_PRICING.standard['1024x1024'];
+};
+
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'created_at' | 'cost' | 'input_tokens' | 'output_tokens'> & {
+  usage?: ChatUsage;
+  cost?: number;
+};
+
+// What a route knows once the provider call settles
+export type UsageOutcome = Pick<NewUsageRecord, 'model' | 'status' | 'usage'>;
+
+// Write one usage row per provider call; metering must never fail the request itself
+export async function recordUsage({ usage, cost, ...record }: NewUsageRecord): Promise<{ tokens: number; cost: number }> {
+  const inputTokens = usage?.inputTokens || 0;
+  const outputTokens = usage?.outputTokens || 0;
+  const totalCost = cost ?? calculateCost(record.model, inputTokens, outputTokens);
+
+  const { error } = await supabase
+    .from('usage_records')
+    .insert([{
+      ...record,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost: totalCost,
+      created_at: new Date().toISOString(),
+    }]);
+
+  if (error) {
+    console.error('Error recording usage:', error);
+  }
+  return { tokens: inputTokens + outputTokens, cost: totalCost };
+}
@@ -1,7 +1,21 @@
-import { clerkMiddleware } from '@clerk/nextjs/server';
+import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
+import { ApiError, errorResponse } from '@/lib/api-errors';
 
-export default clerkMiddleware();
+const isApiRoute = createRouteMatcher(['/api(.*)']);
+const isAppPage = createRouteMatcher(['/chat(.*)', '/analytics(.*)', '/gallery(.*)']);
+
+// Signed-out API calls get the shared 401 envelope; signed-out page visits go to sign-in
+export default clerkMiddleware(async (auth, req) => {
+  if (isApiRoute(req)) {
+    const { userId } = await auth();
+    if (!userId) {
+      return errorResponse(new ApiError('auth_missing', 'Sign in to use the API.'));
+    }
+  } else if (isAppPage(req)) {
+    await auth.protect();
+  }
+});
 
 export const config = {
   matcher: ['/((?!.*\\..*|_next).*)', '/', '/(api|trpc)(.*)'],
-};
\ No newline at end of file
+};
@@ -0,0 +1,13 @@
+-- Reusable system-prompt personas, selectable per conversation
+create table if not exists personas (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  name text not null,
+  prompt text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists personas_user_id_idx on personas (user_id);
+
+alter table conversations
+  add column if not exists persona_id uuid references personas (id) on delete set null;
@@ -0,0 +1,4 @@
+-- Rolling summary of older turns once a conversation outgrows the model's context window
+alter table conversations
+  add column if not exists summary text,
+  add column if not exists summary_message_count integer not null default 0;
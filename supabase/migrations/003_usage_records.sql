@@ -0,0 +1,16 @@
+-- One row per provider call, with token counts reported by the provider
+create table if not exists usage_records (
+  id uuid primary key default gen_random_uuid(),
+  user_id text,
+  conversation_id uuid references conversations (id) on delete set null,
+  kind text not null check (kind in ('chat', 'summary', 'image')),
+  model text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  cost numeric(12, 6) not null default 0,
+  latency_ms integer not null default 0,
+  status text not null check (status in ('success', 'error')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_records_user_created_idx on usage_records (user_id, created_at desc);
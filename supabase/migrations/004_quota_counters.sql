@@ -0,0 +1,18 @@
+-- Fixed-window counters for per-user and per-organization quotas
+create table if not exists quota_counters (
+  key text primary key,
+  total numeric not null default 0,
+  expires_at timestamptz not null
+);
+
+create index if not exists quota_counters_expires_at_idx on quota_counters (expires_at);
+
+create or replace function increment_quota_counter(p_key text, p_amount numeric, p_expires_at timestamptz)
+returns numeric
+language sql
+as $$
+  insert into quota_counters (key, total, expires_at)
+  values (p_key, p_amount, p_expires_at)
+  on conflict (key) do update set total = quota_counters.total + excluded.total
+  returning total;
+$$;
@@ -0,0 +1,3 @@
+-- Numbered web search sources cited by an assistant reply
+alter table messages
+  add column if not exists citations jsonb;
@@ -0,0 +1,3 @@
+-- Tool calls (arguments and results) made while producing an assistant reply
+alter table messages
+  add column if not exists tool_calls jsonb;
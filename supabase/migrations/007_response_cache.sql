@@ -0,0 +1,13 @@
+-- Chat replies reused for identical requests, keyed per organization (or user) and request hash
+create table if not exists response_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null
+);
+
+create index if not exists response_cache_expires_at_idx on response_cache (expires_at);
+
+-- Cache hits are metered as their own status so analytics can count them
+alter table usage_records drop constraint if exists usage_records_status_check;
+alter table usage_records
+  add constraint usage_records_status_check check (status in ('success', 'error', 'cached'));
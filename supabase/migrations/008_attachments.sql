@@ -0,0 +1,17 @@
+-- Text extracted from files attached to chat messages
+create table if not exists attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  name text not null,
+  format text not null,
+  size integer not null,
+  metadata jsonb not null default '{}'::jsonb,
+  pages jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_user_id_idx on attachments (user_id);
+
+-- References to the attachments sent with a message
+alter table messages
+  add column if not exists attachments jsonb;
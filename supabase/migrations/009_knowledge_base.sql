@@ -0,0 +1,59 @@
+-- Documents for retrieval-augmented chat, scoped to a conversation or a workspace
+create extension if not exists vector;
+
+create table if not exists knowledge_documents (
+  id uuid primary key,
+  user_id text not null,
+  org_id text,
+  -- null for workspace-wide documents
+  conversation_id uuid references conversations (id) on delete cascade,
+  name text not null,
+  format text not null,
+  page_count integer not null default 0,
+  chunk_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_documents_conversation_idx on knowledge_documents (conversation_id);
+create index if not exists knowledge_documents_workspace_idx on knowledge_documents (org_id, user_id);
+
+create table if not exists knowledge_chunks (
+  id bigint generated always as identity primary key,
+  document_id uuid not null references knowledge_documents (id) on delete cascade,
+  page integer not null,
+  chunk_index integer not null,
+  content text not null,
+  -- Vectors from different embedders are not comparable, so searches filter on this
+  embedder text not null,
+  embedding vector(1536) not null
+);
+
+create index if not exists knowledge_chunks_embedding_idx
+  on knowledge_chunks using hnsw (embedding vector_cosine_ops);
+
+create or replace function match_knowledge_chunks(
+  p_embedding vector(1536),
+  p_embedder text,
+  p_user_id text,
+  p_org_id text,
+  p_conversation_id uuid,
+  p_limit integer
+)
+returns table (document_id uuid, document_name text, page integer, content text, score double precision)
+language sql stable
+as $$
+  select c.document_id, d.name, c.page, c.content, 1 - (c.embedding <=> p_embedding) as score
+  from knowledge_chunks c
+  join knowledge_documents d on d.id = c.document_id
+  where c.embedder = p_embedder
+    and (
+      (p_conversation_id is not null and d.conversation_id = p_conversation_id)
+      or (
+        d.conversation_id is null
+        and case when p_org_id is not null then d.org_id = p_org_id
+                 else d.org_id is null and d.user_id = p_user_id end
+      )
+    )
+  order by c.embedding <=> p_embedding
+  limit p_limit;
+$$;
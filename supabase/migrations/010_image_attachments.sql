@@ -0,0 +1,4 @@
+-- Images attached to chat messages, kept as sent so vision models can see them on later turns
+alter table attachments
+  add column if not exists media_type text,
+  add column if not exists data text;
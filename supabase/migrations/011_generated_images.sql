@@ -0,0 +1,27 @@
+-- Generated images; the bytes live in the generated-images Storage bucket (or on disk in development)
+create table if not exists generated_images (
+  id uuid primary key,
+  user_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  prompt text not null,
+  -- The prompt as DALL·E 3 rewrote it before drawing
+  revised_prompt text,
+  model text not null,
+  size text not null,
+  quality text not null,
+  style text not null,
+  storage_path text not null,
+  content_type text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists generated_images_user_created_idx on generated_images (user_id, created_at desc);
+
+-- Private: images are served through /api/images/[id] after an ownership check
+insert into storage.buckets (id, name, public)
+values ('generated-images', 'generated-images', false)
+on conflict (id) do nothing;
+
+-- Image messages point at the image they show
+alter table messages
+  add column if not exists image_id uuid references generated_images (id) on delete set null;
@@ -0,0 +1,5 @@
+-- The workspace (Clerk organization) a conversation belongs to; its members may read and continue it
+alter table conversations
+  add column if not exists org_id text;
+
+create index if not exists conversations_org_id_idx on conversations (org_id);
@@ -0,0 +1,15 @@
+-- All reads and writes go through the API routes with the service role key, which bypasses row level security.
+-- Enabling RLS without policies shuts the anon key out of every table, so nothing is readable from the browser.
+alter table conversations enable row level security;
+alter table messages enable row level security;
+alter table personas enable row level security;
+alter table usage_records enable row level security;
+alter table quota_counters enable row level security;
+alter table response_cache enable row level security;
+alter table attachments enable row level security;
+alter table knowledge_documents enable row level security;
+alter table knowledge_chunks enable row level security;
+alter table generated_images enable row level security;
+
+create index if not exists messages_conversation_created_idx on messages (conversation_id, created_at);
+create index if not exists conversations_user_updated_idx on conversations (user_id, updated_at desc);
@@ -0,0 +1,24 @@
+-- Messages form a tree: edits and regenerations are siblings under the same parent
+alter table messages
+  add column if not exists parent_id uuid references messages (id) on delete cascade;
+
+create index if not exists messages_parent_id_idx on messages (parent_id);
+
+-- Existing conversations become a single branch, each message the child of the one before it
+update messages m
+set parent_id = ordered.previous_id
+from (
+  select id, lag(id) over (partition by conversation_id order by created_at, id) as previous_id
+  from messages
+) ordered
+where m.id = ordered.id
+  and m.parent_id is null
+  and ordered.previous_id is not null;
+
+-- The last message of the branch the user is on; reloading shows the path from the root to it
+alter table conversations
+  add column if not exists active_leaf_id uuid references messages (id) on delete set null;
+
+-- Hash of the messages the rolling summary covers, so a summary is only reused on the branch it was made on
+alter table conversations
+  add column if not exists summary_digest text;
@@ -0,0 +1,22 @@
+-- Nested folders for organising conversations; each user has their own tree
+create table if not exists folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  -- null for top-level folders; deleting a folder deletes the folders inside it
+  parent_id uuid references folders (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists folders_user_id_idx on folders (user_id);
+
+alter table folders enable row level security;
+
+-- Conversations in a deleted folder move back to the top level
+alter table conversations
+  add column if not exists folder_id uuid references folders (id) on delete set null,
+  add column if not exists pinned boolean not null default false,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists conversations_folder_id_idx on conversations (folder_id);
+create index if not exists conversations_tags_idx on conversations using gin (tags);
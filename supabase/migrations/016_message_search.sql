@@ -0,0 +1,57 @@
+-- Full-text index over message content
+alter table messages
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists messages_search_vector_idx on messages using gin (search_vector);
+
+-- Ranked matches in the conversations the user may open: their own and their workspace's.
+-- Snippets mark matches with chr(2) and chr(3) rather than HTML, so the API never passes markup through.
+create or replace function search_messages(
+  p_user_id text,
+  p_org_id text,
+  p_query text,
+  p_role text,
+  p_model text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_limit integer
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  message_role text,
+  model text,
+  created_at timestamptz,
+  rank real,
+  snippet text
+)
+language sql stable
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    coalesce(m.model, c.model),
+    m.created_at,
+    ts_rank_cd(m.search_vector, q.query) as match_rank,
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from messages m
+  join conversations c on c.id = m.conversation_id
+  cross join websearch_to_tsquery('english', p_query) as q (query)
+  where m.search_vector @@ q.query
+    and (c.user_id = p_user_id or (p_org_id is not null and c.org_id = p_org_id))
+    and (p_role is null or m.role = p_role)
+    and (p_model is null or coalesce(m.model, c.model) = p_model)
+    and (p_from is null or m.created_at >= p_from)
+    and (p_to is null or m.created_at <= p_to)
+  order by match_rank desc, m.created_at desc
+  limit p_limit;
+$$;
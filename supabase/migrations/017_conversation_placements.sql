@@ -0,0 +1,32 @@
+-- Folder, pin and tags are each user's own view of a conversation, so teammates sharing one
+-- no longer overwrite each other's sidebar. They move off the shared conversations row.
+create table if not exists conversation_placements (
+  user_id text not null,
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  -- Conversations in a deleted folder move back to the top level
+  folder_id uuid references folders (id) on delete set null,
+  pinned boolean not null default false,
+  tags text[] not null default '{}',
+  primary key (user_id, conversation_id)
+);
+
+create index if not exists conversation_placements_folder_id_idx on conversation_placements (folder_id);
+create index if not exists conversation_placements_tags_idx on conversation_placements using gin (tags);
+
+alter table conversation_placements enable row level security;
+
+-- Keep what was set so far for the conversation's creator; a folder only carries over if it is theirs
+insert into conversation_placements (user_id, conversation_id, folder_id, pinned, tags)
+select c.user_id, c.id, f.id, c.pinned, c.tags
+from conversations c
+left join folders f on f.id = c.folder_id and f.user_id = c.user_id
+where c.folder_id is not null or c.pinned or cardinality(c.tags) > 0
+on conflict (user_id, conversation_id) do nothing;
+
+drop index if exists conversations_folder_id_idx;
+drop index if exists conversations_tags_idx;
+
+alter table conversations
+  drop column if exists folder_id,
+  drop column if exists pinned,
+  drop column if exists tags;
@@ -0,0 +1,4 @@
+-- Knowledge base embedding calls are metered alongside chat, summary and image calls
+alter table usage_records drop constraint if exists usage_records_kind_check;
+alter table usage_records
+  add constraint usage_records_kind_check check (kind in ('chat', 'summary', 'image', 'embedding'));